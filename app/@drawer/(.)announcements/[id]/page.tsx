@@ -0,0 +1,13 @@
+"use client";
+
+import { useParams, useRouter } from "next/navigation";
+import AnnouncementDrawer from "@/components/AnnouncementDrawer";
+
+// Opening /announcements/[id] from within the app shows the announcement in a
+// drawer over the current page instead of leaving it.
+export default function AnnouncementDrawerRoute() {
+  const { id } = useParams<{ id: string }>();
+  const router = useRouter();
+
+  return <AnnouncementDrawer id={Number(id)} onClose={() => router.back()} />;
+}
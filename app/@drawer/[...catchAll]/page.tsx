@@ -0,0 +1,4 @@
+// Closes the drawer when navigating anywhere else.
+export default function CatchAll() {
+  return null;
+}
@@ -0,0 +1,209 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import BarChart from "@/components/BarChart";
+import TimelineChart from "@/components/TimelineChart";
+import {
+  checkedShare,
+  countByPeriod,
+  countProducts,
+  countValues,
+  formatPercent,
+} from "@/lib/analytics";
+import type { CountEntry, Period } from "@/lib/analytics";
+import {
+  describeError,
+  getAllMatchingAnnouncements,
+  isAbortError,
+} from "@/lib/api";
+import { groupCompanies } from "@/lib/companies";
+import { isDuplicate } from "@/lib/duplicates";
+import { DEFAULT_FILTERS } from "@/lib/filters";
+import type { Announcement } from "@/lib/types";
+import { dashboardHref } from "@/lib/urlState";
+
+const BARS_PER_CHART = 12;
+
+export default function AnalyticsPage() {
+  const [announcements, setAnnouncements] = useState<Announcement[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [period, setPeriod] = useState<Period>("week");
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetchAnnouncements(controller.signal);
+    return () => controller.abort();
+  }, []);
+
+  const fetchAnnouncements = async (signal?: AbortSignal) => {
+    try {
+      setLoading(true);
+      setError(null);
+      const result = await getAllMatchingAnnouncements(DEFAULT_FILTERS, null, {
+        signal,
+      });
+      setAnnouncements(result.items.filter((a) => !isDuplicate(a)));
+      setLoading(false);
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error("Error fetching announcements:", error);
+      setError(`Could not load announcements: ${describeError(error)}`);
+      setLoading(false);
+    }
+  };
+
+  const total = announcements.length;
+  const checked = announcements.filter((a) => a.checked === 1).length;
+  const companies = groupCompanies(announcements).filter((c) => c.company_name);
+  const companiesByKey = new Map(companies.map((c) => [c.key, c]));
+  const topCompanies = companies.map((c) => ({
+    key: c.key,
+    label: c.company_name,
+    count: c.announcements.length,
+  }));
+  // Bars group by member, so the dashboard should too; only companies without a
+  // member ID fall back to the name
+  const companyHref = ({ key, label }: CountEntry) => {
+    const memberId = key ? companiesByKey.get(key)?.member_id : undefined;
+    return dashboardHref(memberId ? { member: memberId } : { company: label });
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <div className="max-w-7xl mx-auto">
+        <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+          <div className="flex justify-between items-center">
+            <h1 className="text-3xl font-bold text-gray-800">Analytics</h1>
+            <button
+              onClick={() => fetchAnnouncements()}
+              className="bg-green-600 text-white px-6 py-2 rounded-lg hover:bg-green-700 flex items-center gap-2"
+            >
+              🔄 Refresh
+            </button>
+          </div>
+          <p className="text-sm text-gray-600 mt-2">
+            Click a bar to open the matching announcements on the dashboard.
+          </p>
+          {error && (
+            <div className="flex justify-between items-center bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mt-4">
+              <span className="text-sm">⚠️ {error}</span>
+              <button
+                onClick={() => setError(null)}
+                className="text-red-600 hover:text-red-800 text-sm font-medium"
+              >
+                ✕ Dismiss
+              </button>
+            </div>
+          )}
+        </div>
+
+        {loading ? (
+          <div className="p-8 text-center text-gray-500">Loading...</div>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+              <Link
+                href={dashboardHref({ status: "unchecked" })}
+                className="bg-orange-50 p-4 rounded-lg hover:ring-2 hover:ring-orange-300"
+              >
+                <div className="text-sm text-orange-600 font-medium">
+                  Unchecked
+                </div>
+                <div className="text-2xl font-bold text-orange-900">
+                  {total - checked}
+                </div>
+              </Link>
+              <Link
+                href={dashboardHref({ status: "checked" })}
+                className="bg-green-50 p-4 rounded-lg hover:ring-2 hover:ring-green-300"
+              >
+                <div className="text-sm text-green-600 font-medium">
+                  Checked
+                </div>
+                <div className="text-2xl font-bold text-green-900">
+                  {checked}
+                </div>
+              </Link>
+              <div className="bg-blue-50 p-4 rounded-lg">
+                <div className="text-sm text-blue-600 font-medium">
+                  Unchecked → Checked
+                </div>
+                <div className="text-2xl font-bold text-blue-900">
+                  {formatPercent(checkedShare(checked, total))}
+                </div>
+                <div className="text-xs text-blue-700">
+                  of {total} announcements
+                </div>
+              </div>
+            </div>
+
+            <div className="bg-white rounded-lg shadow p-4 mb-6">
+              <div className="flex justify-between items-center mb-3">
+                <h2 className="text-lg font-semibold text-gray-800">
+                  Announcements per {period}
+                </h2>
+                <div className="flex gap-1">
+                  {(["day", "week"] as Period[]).map((p) => (
+                    <button
+                      key={p}
+                      onClick={() => setPeriod(p)}
+                      className={`px-3 py-1 rounded-full text-sm ${
+                        period === p
+                          ? "bg-blue-600 text-white"
+                          : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                      }`}
+                    >
+                      {p === "day" ? "Daily" : "Weekly"}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <TimelineChart buckets={countByPeriod(announcements, period)} />
+              <div className="flex gap-4 text-xs text-gray-600 mt-2">
+                <span>
+                  <span className="inline-block w-3 h-3 bg-green-500 rounded-sm mr-1" />
+                  Checked
+                </span>
+                <span>
+                  <span className="inline-block w-3 h-3 bg-blue-400 rounded-sm mr-1" />
+                  Unchecked
+                </span>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+              <BarChart
+                title="By Type"
+                entries={countValues(
+                  announcements.map((a) => a.announcement_type)
+                )}
+                limit={BARS_PER_CHART}
+                hrefFor={({ label }) => dashboardHref({ type: label })}
+              />
+              <BarChart
+                title="By Wilaya"
+                entries={countValues(announcements.map((a) => a.location))}
+                limit={BARS_PER_CHART}
+                hrefFor={({ label }) => dashboardHref({ location: label })}
+              />
+              <BarChart
+                title="By Product"
+                entries={countProducts(announcements)}
+                limit={BARS_PER_CHART}
+                hrefFor={({ label }) => dashboardHref({ product: label })}
+              />
+              <BarChart
+                title="Top Companies"
+                entries={topCompanies}
+                limit={BARS_PER_CHART}
+                hrefFor={companyHref}
+              />
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+"use client";
+
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import AnnouncementDetails from "@/components/AnnouncementDetails";
+
+export default function AnnouncementPage() {
+  const { id } = useParams<{ id: string }>();
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <div className="max-w-3xl mx-auto">
+        <Link
+          href="/"
+          className="text-sm text-blue-600 hover:text-blue-800 mb-4 inline-block"
+        >
+          ← Back to announcements
+        </Link>
+        <div className="bg-white rounded-lg shadow-lg p-6">
+          <AnnouncementDetails id={Number(id)} />
+        </div>
+      </div>
+    </div>
+  );
+}
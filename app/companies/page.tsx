@@ -0,0 +1,231 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import CompanyCard from "@/components/CompanyCard";
+import OfflineQueuePanel from "@/components/OfflineQueuePanel";
+import { recordActivity } from "@/lib/activity";
+import {
+  describeError,
+  getAllMatchingAnnouncements,
+  isAbortError,
+  updateAnnouncementContact,
+} from "@/lib/api";
+import { runInSequence } from "@/lib/bulk";
+import type { BulkProgress } from "@/lib/bulk";
+import { changedContactFields, contactChanges, contactOf } from "@/lib/contact";
+import { groupCompanies, matchesCompanySearch } from "@/lib/companies";
+import type { Company } from "@/lib/companies";
+import { isDuplicate } from "@/lib/duplicates";
+import { contactEdit, withQueuedEdits } from "@/lib/offlineQueue";
+import { DEFAULT_FILTERS } from "@/lib/filters";
+import { can } from "@/lib/permissions";
+import type { Announcement, ContactInfo } from "@/lib/types";
+import { useCurrentUser } from "@/lib/useCurrentUser";
+import { useOfflineQueue } from "@/lib/useOfflineQueue";
+
+const COMPANIES_PER_PAGE = 30;
+
+export default function CompaniesPage() {
+  const { user, loaded: userLoaded } = useCurrentUser();
+  const [announcements, setAnnouncements] = useState<Announcement[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState("");
+  const [shownCount, setShownCount] = useState(COMPANIES_PER_PAGE);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [editing, setEditing] = useState<string | null>(null);
+  const [progress, setProgress] = useState<
+    Record<string, BulkProgress | undefined>
+  >({});
+  const offlineQueue = useOfflineQueue(user, userLoaded, () =>
+    fetchAnnouncements()
+  );
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetchAnnouncements(controller.signal);
+    return () => controller.abort();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Edits still waiting to be sent show over whatever was loaded
+  useEffect(() => {
+    setAnnouncements((current) =>
+      withQueuedEdits(current, offlineQueue.queued)
+    );
+  }, [offlineQueue.queued]);
+
+  const fetchAnnouncements = async (signal?: AbortSignal) => {
+    try {
+      setLoading(true);
+      setError(null);
+      const result = await getAllMatchingAnnouncements(DEFAULT_FILTERS, null, {
+        signal,
+      });
+      setAnnouncements(
+        withQueuedEdits(
+          result.items.filter((a) => !isDuplicate(a)),
+          offlineQueue.queued
+        )
+      );
+      setLoading(false);
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error("Error fetching announcements:", error);
+      setError(`Could not load announcements: ${describeError(error)}`);
+      setLoading(false);
+    }
+  };
+
+  const toggleHistory = (key: string) => {
+    const next = new Set(expanded);
+    if (next.has(key)) next.delete(key);
+    else next.add(key);
+    setExpanded(next);
+  };
+
+  // Writes the fields the user changed to every announcement of the company,
+  // one at a time. The form starts from a summary, so the other fields keep
+  // each announcement's own value.
+  const saveCompanyContact = async (company: Company, contact: ContactInfo) => {
+    const changes = contactChanges(company.contact, contact);
+    if (Object.keys(changes).length === 0) {
+      setEditing(null);
+      return;
+    }
+    const label = "Updating contact";
+    const total = company.announcements.length;
+    const report = (done: number, failed: number) =>
+      setProgress((current) => ({
+        ...current,
+        [company.key]: { label, done, total, failed },
+      }));
+    report(0, 0);
+
+    const succeeded = await runInSequence(
+      company.announcements,
+      async (a) => {
+        const before = contactOf(a);
+        const after = { ...before, ...changes };
+        const outcome = await offlineQueue.sendOrQueue(
+          () => updateAnnouncementContact(a.id, after),
+          contactEdit(a, after, user)
+        );
+        if (outcome === "queued") return;
+        recordActivity(
+          a.id,
+          "Edited contact",
+          changedContactFields(before, after)
+        );
+      },
+      report
+    );
+    const updatedIds = new Set(succeeded.map((a) => a.id));
+    setAnnouncements((current) =>
+      current.map((a) => (updatedIds.has(a.id) ? { ...a, ...changes } : a))
+    );
+    const failed = total - succeeded.length;
+    if (failed > 0) {
+      const name = company.company_name;
+      setError(
+        `Could not update ${failed} of ${total} announcements of ${name}. Save again to retry.`
+      );
+    } else {
+      setEditing(null);
+    }
+  };
+
+  const companies = groupCompanies(announcements).filter((c) =>
+    matchesCompanySearch(c, search)
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <div className="max-w-7xl mx-auto">
+        <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+          <div className="flex justify-between items-center mb-4">
+            <h1 className="text-3xl font-bold text-gray-800">Companies</h1>
+            <button
+              onClick={() => fetchAnnouncements()}
+              className="bg-green-600 text-white px-6 py-2 rounded-lg hover:bg-green-700 flex items-center gap-2"
+            >
+              🔄 Refresh
+            </button>
+          </div>
+          <input
+            type="text"
+            placeholder="Search by company, member ID, city, mail or phone..."
+            value={search}
+            onChange={(e) => {
+              setSearch(e.target.value);
+              setShownCount(COMPANIES_PER_PAGE);
+            }}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900"
+          />
+          {!loading && (
+            <div className="text-sm text-gray-600 mt-3">
+              {companies.length} companies, {announcements.length} announcements
+            </div>
+          )}
+          {error && (
+            <div className="flex justify-between items-center bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mt-4">
+              <span className="text-sm">⚠️ {error}</span>
+              <button
+                onClick={() => setError(null)}
+                className="text-red-600 hover:text-red-800 text-sm font-medium"
+              >
+                ✕ Dismiss
+              </button>
+            </div>
+          )}
+        </div>
+
+        {offlineQueue.queued.length > 0 && (
+          <OfflineQueuePanel
+            queued={offlineQueue.queued}
+            syncing={offlineQueue.syncing}
+            onSync={offlineQueue.replay}
+            onResolve={offlineQueue.resolve}
+          />
+        )}
+
+        {loading ? (
+          <div className="p-8 text-center text-gray-500">Loading...</div>
+        ) : companies.length === 0 ? (
+          <div className="p-8 text-center text-gray-500">
+            No companies found.
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+              {companies.slice(0, shownCount).map((company) => (
+                <CompanyCard
+                  key={company.key}
+                  company={company}
+                  expanded={expanded.has(company.key)}
+                  editing={editing === company.key}
+                  canEdit={can(user.role, "announcement:edit")}
+                  progress={progress[company.key] ?? null}
+                  onToggleHistory={() => toggleHistory(company.key)}
+                  onEdit={() => setEditing(company.key)}
+                  onSave={(contact) => saveCompanyContact(company, contact)}
+                  onCancel={() => setEditing(null)}
+                />
+              ))}
+            </div>
+            {shownCount < companies.length && (
+              <div className="text-center mt-6">
+                <button
+                  onClick={() => setShownCount(shownCount + COMPANIES_PER_PAGE)}
+                  className="bg-gray-600 text-white px-6 py-2 rounded-lg hover:bg-gray-700"
+                >
+                  Show more ({companies.length - shownCount} left)
+                </button>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
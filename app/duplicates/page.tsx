@@ -0,0 +1,164 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import DuplicateClusterCard from "@/components/DuplicateClusterCard";
+import { recordActivity } from "@/lib/activity";
+import {
+  describeError,
+  getAllMatchingAnnouncements,
+  isAbortError,
+  markAnnouncementDuplicate,
+  updateAnnouncementContact,
+} from "@/lib/api";
+import { runInSequence } from "@/lib/bulk";
+import { changedContactFields, contactOf } from "@/lib/contact";
+import { findDuplicateClusters, mergeClusterContact } from "@/lib/duplicates";
+import type { DuplicateCluster } from "@/lib/duplicates";
+import { DEFAULT_FILTERS } from "@/lib/filters";
+import { can } from "@/lib/permissions";
+import type { Announcement } from "@/lib/types";
+import { useCurrentUser } from "@/lib/useCurrentUser";
+
+export default function DuplicatesPage() {
+  const { user } = useCurrentUser();
+  const [clusters, setClusters] = useState<DuplicateCluster[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [merging, setMerging] = useState<string | null>(null);
+  const [mergedCount, setMergedCount] = useState(0);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetchClusters(controller.signal);
+    return () => controller.abort();
+  }, []);
+
+  const fetchClusters = async (signal?: AbortSignal) => {
+    try {
+      setLoading(true);
+      setError(null);
+      const result = await getAllMatchingAnnouncements(DEFAULT_FILTERS, null, {
+        signal,
+      });
+      setClusters(findDuplicateClusters(result.items));
+      setLoading(false);
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error("Error fetching announcements:", error);
+      setError(`Could not load announcements: ${describeError(error)}`);
+      setLoading(false);
+    }
+  };
+
+  // The survivor takes the merged contact first, so no contact detail is lost
+  // if marking the duplicates fails halfway.
+  const mergeCluster = async (
+    cluster: DuplicateCluster,
+    survivor: Announcement,
+    duplicates: Announcement[]
+  ) => {
+    if (
+      !confirm(
+        `Merge ${duplicates.length} announcements into #${survivor.id}? They will be hidden from the dashboard and stats.`
+      )
+    ) {
+      return;
+    }
+    try {
+      setMerging(cluster.key);
+      const merged = mergeClusterContact(survivor, duplicates);
+      await updateAnnouncementContact(survivor.id, merged);
+      recordActivity(
+        survivor.id,
+        "Merged duplicate contacts",
+        changedContactFields(contactOf(survivor), merged)
+      );
+      const marked = await runInSequence(
+        duplicates,
+        async (a) => {
+          await markAnnouncementDuplicate(a.id, survivor.id);
+          recordActivity(a.id, `Marked duplicate of #${survivor.id}`, [
+            "duplicate_of",
+          ]);
+        },
+        () => undefined
+      );
+      setMergedCount((count) => count + marked.length);
+      const unmarked = duplicates.length - marked.length;
+      if (unmarked > 0) {
+        setError(
+          `Could not mark ${unmarked} announcements as duplicates. Refresh and try again.`
+        );
+      } else {
+        setClusters((current) => current.filter((c) => c.key !== cluster.key));
+      }
+    } catch (error) {
+      console.error("Error merging duplicates:", error);
+      setError(`Could not merge duplicates: ${describeError(error)}`);
+    } finally {
+      setMerging(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <div className="max-w-7xl mx-auto">
+        <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+          <div className="flex justify-between items-center">
+            <h1 className="text-3xl font-bold text-gray-800">Duplicates</h1>
+            <button
+              onClick={() => fetchClusters()}
+              className="bg-green-600 text-white px-6 py-2 rounded-lg hover:bg-green-700 flex items-center gap-2"
+            >
+              🔄 Refresh
+            </button>
+          </div>
+          <p className="text-sm text-gray-600 mt-4">
+            Announcements of the same company with similar titles, products and
+            location, posted close together. Pick the record to keep; the others
+            are marked as its duplicates and their contact details fill the gaps
+            in it.
+          </p>
+          {mergedCount > 0 && (
+            <div className="text-sm text-green-700 mt-3">
+              ✅ {mergedCount} duplicates merged this session
+            </div>
+          )}
+          {error && (
+            <div className="flex justify-between items-center bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mt-4">
+              <span className="text-sm">⚠️ {error}</span>
+              <button
+                onClick={() => setError(null)}
+                className="text-red-600 hover:text-red-800 text-sm font-medium"
+              >
+                ✕ Dismiss
+              </button>
+            </div>
+          )}
+        </div>
+
+        {loading ? (
+          <div className="p-8 text-center text-gray-500">Loading...</div>
+        ) : clusters.length === 0 ? (
+          <div className="p-8 text-center text-gray-500">
+            No likely duplicates found.
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {clusters.map((cluster) => (
+              <DuplicateClusterCard
+                key={cluster.key}
+                cluster={cluster}
+                merging={merging === cluster.key}
+                canMerge={can(user.role, "announcement:edit")}
+                onMerge={(survivor, duplicates) =>
+                  mergeCluster(cluster, survivor, duplicates)
+                }
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
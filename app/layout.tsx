@@ -1,5 +1,8 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
+import CurrentUserProvider from "@/components/CurrentUserProvider";
+import Nav from "@/components/Nav";
+import ToastProvider from "@/components/ToastProvider";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -19,15 +22,23 @@ export const metadata: Metadata = {
 
 export default function RootLayout({
   children,
+  drawer,
 }: Readonly<{
   children: React.ReactNode;
+  drawer: React.ReactNode;
 }>) {
   return (
     <html lang="en">
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
-        {children}
+        <CurrentUserProvider>
+          <ToastProvider>
+            <Nav />
+            {children}
+            {drawer}
+          </ToastProvider>
+        </CurrentUserProvider>
       </body>
     </html>
   );
@@ -0,0 +1,93 @@
+"use client";
+
+import { Suspense, useState } from "react";
+import { useSearchParams } from "next/navigation";
+import { ApiError, describeError, login } from "@/lib/api";
+import { storeSession } from "@/lib/session";
+
+// Used when the backend doesn't say how long the token lasts
+const DEFAULT_SESSION_SECONDS = 60 * 60 * 12;
+
+// Only same-site paths, so the login page can't be used as an open redirect
+const safeNext = (next: string | null) =>
+  next && next.startsWith("/") && !next.startsWith("//") ? next : "/";
+
+function LoginForm() {
+  const searchParams = useSearchParams();
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSubmitting(true);
+      setError(null);
+      const result = await login(username.trim(), password);
+      storeSession(result.token, result.expires_in ?? DEFAULT_SESSION_SECONDS);
+      // A full load so every page starts with the new session
+      window.location.assign(safeNext(searchParams.get("next")));
+    } catch (error) {
+      console.error("Error logging in:", error);
+      setError(
+        error instanceof ApiError && error.status === 401
+          ? "Wrong username or password."
+          : `Could not log in: ${describeError(error)}`
+      );
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form
+      onSubmit={submit}
+      className="bg-white rounded-lg shadow-lg p-6 w-full max-w-sm"
+    >
+      <h1 className="text-2xl font-bold text-gray-800 mb-4">Log In</h1>
+      <label className="block text-sm font-medium text-gray-700 mb-1">
+        Username
+      </label>
+      <input
+        type="text"
+        value={username}
+        onChange={(e) => setUsername(e.target.value)}
+        autoComplete="username"
+        autoFocus
+        className="w-full px-4 py-2 mb-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900"
+      />
+      <label className="block text-sm font-medium text-gray-700 mb-1">
+        Password
+      </label>
+      <input
+        type="password"
+        value={password}
+        onChange={(e) => setPassword(e.target.value)}
+        autoComplete="current-password"
+        className="w-full px-4 py-2 mb-4 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900"
+      />
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mb-4 text-sm">
+          ⚠️ {error}
+        </div>
+      )}
+      <button
+        type="submit"
+        disabled={submitting || !username.trim() || !password}
+        className="w-full bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+      >
+        {submitting ? "Logging in..." : "Log In"}
+      </button>
+    </form>
+  );
+}
+
+export default function LoginPage() {
+  return (
+    <div className="min-h-screen bg-gray-50 p-8 flex items-start justify-center">
+      <Suspense fallback={<div className="text-gray-500">Loading...</div>}>
+        <LoginForm />
+      </Suspense>
+    </div>
+  );
+}
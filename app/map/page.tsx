@@ -0,0 +1,178 @@
+"use client";
+
+import { Suspense, useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
+import AnnouncementMap from "@/components/AnnouncementMap";
+import type { PlacedAnnouncement } from "@/components/AnnouncementMap";
+import {
+  describeError,
+  getFilteredAnnouncements,
+  isAbortError,
+} from "@/lib/api";
+import { isDuplicate } from "@/lib/duplicates";
+import { hasActiveFilters } from "@/lib/filters";
+import { locateAnnouncement } from "@/lib/gazetteer";
+import type { Announcement } from "@/lib/types";
+import { readQuery } from "@/lib/urlState";
+
+export default function MapPage() {
+  // useSearchParams needs a Suspense boundary so the page can still be
+  // prerendered.
+  return (
+    <Suspense
+      fallback={
+        <div className="min-h-screen bg-gray-50 p-8 text-center text-gray-500">
+          Loading...
+        </div>
+      }
+    >
+      <AnnouncementMapView />
+    </Suspense>
+  );
+}
+
+function AnnouncementMapView() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  // The map takes the dashboard's filters from the same query string
+  const queryString = searchParams.toString();
+  const [announcements, setAnnouncements] = useState<Announcement[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [group, setGroup] = useState<PlacedAnnouncement[] | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetchAnnouncements(controller.signal);
+    return () => controller.abort();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [queryString]);
+
+  const fetchAnnouncements = async (signal?: AbortSignal) => {
+    const { filters } = readQuery(new URLSearchParams(queryString));
+    try {
+      setLoading(true);
+      setError(null);
+      setGroup(null);
+      const items = await getFilteredAnnouncements(filters, null, { signal });
+      setAnnouncements(items.filter((a) => !isDuplicate(a)));
+      setLoading(false);
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error("Error fetching announcements:", error);
+      setError(`Could not load announcements: ${describeError(error)}`);
+      setLoading(false);
+    }
+  };
+
+  const placed: PlacedAnnouncement[] = [];
+  let unplaced = 0;
+  for (const announcement of announcements) {
+    const place = locateAnnouncement(announcement);
+    if (place) placed.push({ announcement, place });
+    else unplaced++;
+  }
+
+  const openAnnouncement = (id: number) =>
+    router.push(`/announcements/${id}${queryString ? `?${queryString}` : ""}`, {
+      scroll: false,
+    });
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <div className="max-w-7xl mx-auto">
+        <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+          <div className="flex justify-between items-center mb-2">
+            <h1 className="text-3xl font-bold text-gray-800">
+              Announcement Map
+            </h1>
+            <Link
+              href={queryString ? `/?${queryString}` : "/"}
+              className="bg-gray-600 text-white px-6 py-2 rounded-lg hover:bg-gray-700 flex items-center gap-2"
+            >
+              📋 Back to Table
+            </Link>
+          </div>
+          <p className="text-sm text-gray-600">
+            {hasActiveFilters(readQuery(searchParams).filters)
+              ? "Showing the announcements that match the dashboard filters."
+              : "Showing all announcements."}{" "}
+            Click a cluster to zoom in and a marker to open the announcement.
+          </p>
+          {!loading && (
+            <p className="text-sm text-gray-600 mt-1">
+              {placed.length} on the map
+              {unplaced > 0 && ` · ${unplaced} without a location we recognise`}
+            </p>
+          )}
+          {error && (
+            <div className="flex justify-between items-center bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mt-4">
+              <span className="text-sm">⚠️ {error}</span>
+              <button
+                onClick={() => setError(null)}
+                className="text-red-600 hover:text-red-800 text-sm font-medium"
+              >
+                ✕ Dismiss
+              </button>
+            </div>
+          )}
+        </div>
+
+        {loading ? (
+          <div className="p-8 text-center text-gray-500">Loading...</div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+            <div className="lg:col-span-2 bg-white rounded-lg shadow p-4">
+              <AnnouncementMap
+                placed={placed}
+                onOpen={openAnnouncement}
+                onShowGroup={setGroup}
+              />
+            </div>
+            <div className="bg-white rounded-lg shadow p-4">
+              {group ? (
+                <>
+                  <div className="flex justify-between items-center mb-3">
+                    <h2 className="text-lg font-semibold text-gray-800">
+                      {group[0].place.name} ({group.length})
+                    </h2>
+                    <button
+                      onClick={() => setGroup(null)}
+                      className="text-gray-500 hover:text-gray-800 text-sm font-medium"
+                    >
+                      ✕ Close
+                    </button>
+                  </div>
+                  <ul className="divide-y max-h-[32rem] overflow-y-auto">
+                    {group.map(({ announcement }) => (
+                      <li key={announcement.id}>
+                        <button
+                          onClick={() => openAnnouncement(announcement.id)}
+                          className="w-full text-left py-2 hover:bg-gray-50"
+                        >
+                          <div className="text-sm font-medium text-gray-900">
+                            {announcement.announcement_title}
+                          </div>
+                          <div className="text-xs text-gray-600">
+                            {announcement.company_name} ·{" "}
+                            {announcement.announcement_date}
+                          </div>
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                </>
+              ) : (
+                <div className="text-sm text-gray-500">
+                  Click a cluster of announcements at the same place to list
+                  them here.
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,40 +1,126 @@
 "use client";
 
-import { useState, useEffect } from "react";
-
-interface Announcement {
-  id: number;
-  member_id: string;
-  company_name: string;
-  announcement_title: string;
-  description: string;
-  products: string;
-  location: string;
-  announcement_type: string;
-  announcement_date: string;
-  announcement_url: string;
-  scraped_date: string;
-  checked: number;
-  created_at: string;
-  // Contact information fields
-  prenom?: string;
-  adresse?: string;
-  cod_postal?: string;
-  ville?: string;
-  mail?: string;
-  tel?: string;
-  web_site?: string;
-  ok?: string;
-}
+import { Suspense, useState, useEffect, useRef } from "react";
+import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
+import SavedViews from "@/components/SavedViews";
+import BulkActionBar from "@/components/BulkActionBar";
+import ContactForm from "@/components/ContactForm";
+import ContactSuggestionsDialog from "@/components/ContactSuggestionsDialog";
+import ExportDialog from "@/components/ExportDialog";
+import type { ExportOptions, ExportScope } from "@/components/ExportDialog";
+import ImportWizard from "@/components/ImportWizard";
+import NormalizeContactsDialog from "@/components/NormalizeContactsDialog";
+import OfflineQueuePanel from "@/components/OfflineQueuePanel";
+import RowSaveIndicator from "@/components/RowSaveIndicator";
+import RunChangeBadge from "@/components/RunChangeBadge";
+import ScrapeProgressPanel from "@/components/ScrapeProgressPanel";
+import StageSelect from "@/components/StageSelect";
+import {
+  ApiError,
+  cancelScrape,
+  deleteAnnouncement,
+  describeError,
+  getAllMatchingAnnouncements,
+  getScrapeRun,
+  getScrapeStatus,
+  getStats,
+  isAbortError,
+  isNetworkError,
+  queryAnnouncements,
+  setAnnouncementStatus,
+  startScrape,
+  updateAnnouncementContact,
+} from "@/lib/api";
+import type { AnnouncementQueryResult } from "@/lib/api";
+import {
+  collectFilterOptions,
+  DEFAULT_FILTERS,
+  hasActiveFilters,
+  isFollowUpDue,
+  matchesFilters,
+  nextSort,
+  PAGE_SIZES,
+  paginate,
+  sortAnnouncements,
+} from "@/lib/filters";
+import type {
+  AnnouncementFilters,
+  FilterOptions,
+  SortField,
+  SortState,
+} from "@/lib/filters";
+import { recordActivity } from "@/lib/activity";
+import type { BulkProgress } from "@/lib/bulk";
+import { changedContactFields, contactOf } from "@/lib/contact";
+import { extractContactSuggestions } from "@/lib/contactExtraction";
+import { toCSV } from "@/lib/csv";
+import { downloadFile, todayStamp } from "@/lib/download";
+import { formatDateTime } from "@/lib/format";
+import { isDuplicate } from "@/lib/duplicates";
+import { resolveColumns } from "@/lib/exportColumns";
+import { toJSON, toNDJSON } from "@/lib/jsonExport";
+import { contactEdit, stageEdit, withQueuedEdits } from "@/lib/offlineQueue";
+import {
+  isOfflineStoreAvailable,
+  loadSnapshot,
+  saveSnapshot,
+} from "@/lib/offlineStore";
+import { viewQuery } from "@/lib/savedViews";
+import type { SavedView } from "@/lib/savedViews";
+import { can } from "@/lib/permissions";
+import {
+  checkedForStage,
+  countByStage,
+  findStage,
+  STAGE_STYLES,
+  stageForChecked,
+  stageOf,
+} from "@/lib/pipeline";
+import { watchScrape } from "@/lib/scrapeStream";
+import type { ScrapeTransport } from "@/lib/scrapeStream";
+import type {
+  Announcement,
+  ContactInfo,
+  RunChange,
+  ScrapeStatus,
+  Stats,
+} from "@/lib/types";
+import { useToast } from "@/lib/toast";
+import { readQuery, writeQuery } from "@/lib/urlState";
+import { useCurrentUser } from "@/lib/useCurrentUser";
+import { useOfflineQueue } from "@/lib/useOfflineQueue";
+import { useRowSaves } from "@/lib/useRowSaves";
+import type { OptimisticChange } from "@/lib/useRowSaves";
+import { usePipelineStages } from "@/lib/usePipelineStages";
+import { toXLSX } from "@/lib/xlsx";
 
-interface Stats {
-  total: number;
-  checked: number;
-  unchecked: number;
-  today: number;
-}
+const SEARCH_DEBOUNCE_MS = 300;
+
+// Client mode loads the full list whatever the query, so one snapshot covers
+// every view.
+const CLIENT_SNAPSHOT_KEY = "announcements:all";
+const STATS_SNAPSHOT_KEY = "stats";
 
 export default function Home() {
+  // useSearchParams needs a Suspense boundary so the page can still be
+  // prerendered.
+  return (
+    <Suspense
+      fallback={
+        <div className="min-h-screen bg-gray-50 p-8 text-center text-gray-500">
+          Loading...
+        </div>
+      }
+    >
+      <Dashboard />
+    </Suspense>
+  );
+}
+
+function Dashboard() {
+  const searchParams = useSearchParams();
+  const [initialQuery] = useState(() => readQuery(searchParams));
   const [announcements, setAnnouncements] = useState<Announcement[]>([]);
   const [stats, setStats] = useState<Stats>({
     total: 0,
@@ -44,338 +130,771 @@ export default function Home() {
   });
   const [loading, setLoading] = useState(true);
   const [scraping, setScraping] = useState(false);
-  const [searchTerm, setSearchTerm] = useState("");
-  const [filterType, setFilterType] = useState("all");
-  const [filterLocation, setFilterLocation] = useState("all");
-  const [filterProduct, setFilterProduct] = useState("all");
-  const [filterStatus, setFilterStatus] = useState("all");
-  const [filterDateFrom, setFilterDateFrom] = useState("");
-  const [filterDateTo, setFilterDateTo] = useState("");
-  const [filterCompany, setFilterCompany] = useState("");
-  const [statusCheckInterval, setStatusCheckInterval] =
-    useState<NodeJS.Timeout | null>(null);
+  const [filters, setFilters] = useState<AnnouncementFilters>(
+    initialQuery.filters
+  );
+  const [sort, setSort] = useState<SortState | null>(initialQuery.sort);
+  const [page, setPage] = useState(initialQuery.page);
+  const [pageSize, setPageSize] = useState(initialQuery.pageSize);
+  // "server" once the backend has answered with a page object, "client" when
+  // it returned the full list and we filter in the browser instead.
+  const [queryMode, setQueryMode] = useState<"server" | "client" | null>(null);
+  const [totalMatching, setTotalMatching] = useState(0);
+  const [serverFacets, setServerFacets] = useState<FilterOptions | null>(null);
+  const [scrapeStatus, setScrapeStatus] = useState<ScrapeStatus | null>(null);
+  const [stopping, setStopping] = useState(false);
+  // The user asked this run to stop, whether or not the backend says so
+  const [cancelRequested, setCancelRequested] = useState(false);
+  const [scrapeStartedAt, setScrapeStartedAt] = useState(0);
+  const [scrapeTransport, setScrapeTransport] =
+    useState<ScrapeTransport | null>(null);
+  // Bumped when a scrape reports new rows that need a table reload.
+  const [scrapeRefresh, setScrapeRefresh] = useState(0);
+  const stopWatchingRef = useRef<(() => void) | null>(null);
+  const filtersRef = useRef(filters);
+  const queryModeRef = useRef(queryMode);
+  // Rows a scrape streamed in that the server-paged table doesn't show yet
+  const [streamedCount, setStreamedCount] = useState(0);
+  const [runChanges, setRunChanges] = useState<Map<number, RunChange> | null>(
+    null
+  );
   const [showAdvancedFilters, setShowAdvancedFilters] = useState(false);
   const [exporting, setExporting] = useState(false);
+  // Scope the export dialog opens with, or null while it's closed
+  const [showExport, setShowExport] = useState<ExportScope | null>(null);
+  const [showImport, setShowImport] = useState(false);
+  const [showNormalize, setShowNormalize] = useState(false);
+  const [showSuggestions, setShowSuggestions] = useState(false);
   const [editingContact, setEditingContact] = useState<number | null>(null);
-  const [contactForm, setContactForm] = useState({
-    prenom: "",
-    adresse: "",
-    cod_postal: "",
-    ville: "",
-    mail: "",
-    tel: "",
-    web_site: "",
-    ok: "",
-  });
+  // Rows picked for bulk actions, kept across pages of the same filter
+  const [selected, setSelected] = useState<Map<number, Announcement>>(
+    new Map()
+  );
+  const selectionAnchorRef = useRef<number | null>(null);
+  const [selectingAll, setSelectingAll] = useState(false);
+  const [bulkProgress, setBulkProgress] = useState<BulkProgress | null>(null);
 
-  const API_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:5001";
-  const IS_PRODUCTION = process.env.NODE_ENV === "production";
+  const [error, setError] = useState<string | null>(null);
+  // When the announcements shown come from the offline snapshot
+  const [staleSince, setStaleSince] = useState<string | null>(null);
 
-  useEffect(() => {
+  const { user, loaded: userLoaded } = useCurrentUser();
+  const canEdit = can(user.role, "announcement:edit");
+  const canExport = can(user.role, "announcement:export");
+  const { stages } = usePipelineStages();
+  const router = useRouter();
+  const toast = useToast();
+  const rowSaves = useRowSaves();
+  const offlineQueue = useOfflineQueue(user, userLoaded, () => {
     fetchAnnouncements();
     fetchStats();
+  });
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetchStats(controller.signal);
+    attachToRunningScrape(controller.signal);
+    return () => {
+      controller.abort();
+      stopWatchingRef.current?.();
+    };
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
-  const fetchAnnouncements = async () => {
+  useEffect(() => {
+    filtersRef.current = filters;
+  }, [filters]);
+
+  useEffect(() => {
+    queryModeRef.current = queryMode;
+  }, [queryMode]);
+
+  // A selection only makes sense under the filters it was made with.
+  useEffect(() => {
+    setSelected(new Map());
+    selectionAnchorRef.current = null;
+  }, [filters]);
+
+  // The run filter needs the run's change list for the row badges, and for
+  // filtering itself when the backend doesn't filter by run.
+  useEffect(() => {
+    setRunChanges(null);
+    const runId = Number(filters.run);
+    if (!filters.run || !Number.isInteger(runId)) return;
+    const controller = new AbortController();
+    getScrapeRun(runId, { signal: controller.signal })
+      .then((run) =>
+        setRunChanges(new Map(run.changes.map((c) => [c.announcement_id, c])))
+      )
+      .catch((error) => {
+        if (isAbortError(error)) return;
+        console.error("Error fetching scrape run:", error);
+        setError(`Could not load scrape run: ${describeError(error)}`);
+      });
+    return () => controller.abort();
+  }, [filters.run]);
+
+  useEffect(() => {
+    if (scrapeRefresh === 0) return;
+    fetchAnnouncements();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [scrapeRefresh]);
+
+  const queryString = writeQuery({ filters, sort, page, pageSize });
+
+  // Back/forward navigation changes the URL: restore the query it describes.
+  useEffect(() => {
+    const query = readQuery(searchParams);
+    if (writeQuery(query) === queryString) return;
+    setFilters(query.filters);
+    setSort(query.sort);
+    setPage(query.page);
+    setPageSize(query.pageSize);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [searchParams]);
+
+  // Every query change gets its own history entry. Typing in the search box
+  // is debounced so one search doesn't push one entry per keystroke.
+  useEffect(() => {
+    if (writeQuery(readQuery(searchParams)) === queryString) return;
+    const timer = setTimeout(() => {
+      window.history.pushState(
+        null,
+        "",
+        queryString ? `?${queryString}` : window.location.pathname
+      );
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [queryString]);
+
+  // Re-query the backend whenever the query changes. In client mode the full
+  // list is already loaded, so filtering happens locally.
+  useEffect(() => {
+    if (queryMode === "client") return;
+    const controller = new AbortController();
+    const timer = setTimeout(
+      () => fetchAnnouncements(controller.signal),
+      queryMode === null ? 0 : SEARCH_DEBOUNCE_MS
+    );
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [filters, sort, page, pageSize]);
+
+  // Edits still waiting to be sent show over whatever was loaded
+  useEffect(() => {
+    setAnnouncements((current) =>
+      withQueuedEdits(current, offlineQueue.queued)
+    );
+  }, [offlineQueue.queued]);
+
+  // Reload as soon as the browser is back online
+  useEffect(() => {
+    if (!staleSince) return;
+    const reload = () => fetchAnnouncements();
+    window.addEventListener("online", reload);
+    return () => window.removeEventListener("online", reload);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [staleSince, queryString]);
+
+  const showAnnouncements = (result: AnnouncementQueryResult) => {
+    // Server mode leaves duplicates out already
+    const items = result.items.filter((a) => !isDuplicate(a));
+    setAnnouncements(withQueuedEdits(items, offlineQueue.queued));
+    setQueryMode(result.mode);
+    setStreamedCount(0);
+    if (result.mode === "server") {
+      setTotalMatching(result.total);
+      setServerFacets(result.facets ?? null);
+    }
+  };
+
+  // The last announcements loaded for this query, or in client mode for any
+  const showSnapshot = async () => {
+    if (!isOfflineStoreAvailable()) return false;
     try {
-      const response = await fetch(`${API_URL}/api/announcements`);
-      const data = await response.json();
-      setAnnouncements(Array.isArray(data) ? data : []);
+      const snapshot =
+        (await loadSnapshot<AnnouncementQueryResult>(
+          `announcements?${queryString}`
+        )) ??
+        (await loadSnapshot<AnnouncementQueryResult>(CLIENT_SNAPSHOT_KEY));
+      if (!snapshot) return false;
+      showAnnouncements(snapshot.data);
+      setStaleSince(snapshot.savedAt);
+      return true;
+    } catch (error) {
+      console.error("Error loading offline snapshot:", error);
+      return false;
+    }
+  };
+
+  const fetchAnnouncements = async (signal?: AbortSignal) => {
+    try {
+      const result = await queryAnnouncements(
+        { filters, sort, page, pageSize },
+        { signal }
+      );
+      showAnnouncements(result);
+      setStaleSince(null);
       setLoading(false);
+      if (isOfflineStoreAvailable()) {
+        saveSnapshot(
+          result.mode === "client"
+            ? CLIENT_SNAPSHOT_KEY
+            : `announcements?${queryString}`,
+          result
+        ).catch((error) => {
+          console.error("Error saving offline snapshot:", error);
+        });
+      }
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error("Error fetching announcements:", error);
-      setAnnouncements([]);
+      if (!isNetworkError(error) || !(await showSnapshot())) {
+        setError(`Could not load announcements: ${describeError(error)}`);
+      }
       setLoading(false);
     }
   };
 
-  const fetchStats = async () => {
+  const attachToRunningScrape = async (signal?: AbortSignal) => {
     try {
-      const response = await fetch(`${API_URL}/api/stats`);
-      const data = await response.json();
-      setStats(data);
+      const status = await getScrapeStatus({ signal });
+      if (status.running) followScrape(status);
     } catch (error) {
-      console.error("Error fetching stats:", error);
+      if (isAbortError(error)) return;
+      console.error("Error checking scrape status:", error);
     }
   };
 
-  const toggleCheck = async (id: number, currentChecked: number) => {
+  const fetchStats = async (signal?: AbortSignal) => {
     try {
-      const newChecked = currentChecked === 1 ? 0 : 1;
-      await fetch(`${API_URL}/api/announcements/${id}/check`, {
-        method: "PUT",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ checked: newChecked }),
-      });
-
-      setAnnouncements(
-        announcements.map((a) =>
-          a.id === id ? { ...a, checked: newChecked } : a
-        )
-      );
-      fetchStats();
+      const data = await getStats({ signal });
+      setStats(data);
+      if (isOfflineStoreAvailable()) {
+        saveSnapshot(STATS_SNAPSHOT_KEY, data).catch((error) => {
+          console.error("Error saving offline snapshot:", error);
+        });
+      }
     } catch (error) {
-      console.error("Error toggling check:", error);
+      if (isAbortError(error)) return;
+      console.error("Error fetching stats:", error);
+      const snapshot = isNetworkError(error)
+        ? await loadSnapshot<Stats>(STATS_SNAPSHOT_KEY).catch(() => undefined)
+        : undefined;
+      if (snapshot) setStats(snapshot.data);
+      else setError(`Could not load stats: ${describeError(error)}`);
     }
   };
 
+  const updateRow = (id: number, changes: Partial<Announcement>) =>
+    setAnnouncements((current) =>
+      current.map((a) => (a.id === id ? { ...a, ...changes } : a))
+    );
+
+  // The checkbox is a shortcut for the first two stages
+  const toggleCheck = (announcement: Announcement) =>
+    changeStage(
+      announcement.id,
+      stageForChecked(announcement, announcement.checked ? 0 : 1)
+    );
+
+  const changeStage = (id: number, stage: string) => {
+    const previous = announcements.find((a) => a.id === id);
+    if (!previous || stageOf(previous) === stage) return;
+    const { label } = findStage(stages, stage);
+    rowSaves.save(id, {
+      apply: () =>
+        updateRow(id, { status: stage, checked: checkedForStage(stage) }),
+      rollback: () =>
+        updateRow(id, { status: previous.status, checked: previous.checked }),
+      failure: "Could not change stage",
+      send: async () => {
+        const outcome = await offlineQueue.sendOrQueue(
+          () => setAnnouncementStatus(id, stage),
+          stageEdit(previous, stage, label, user)
+        );
+        if (outcome === "queued") return outcome;
+        recordActivity(id, `Moved to ${label}`, ["status"]);
+        fetchStats();
+      },
+    });
+  };
+
+  // Follows a scrape until it finishes, whether this tab started it or it was
+  // already running when the page loaded.
+  const followScrape = (status: ScrapeStatus) => {
+    stopWatchingRef.current?.();
+    setScraping(true);
+    setStopping(false);
+    setCancelRequested(false);
+    setScrapeStartedAt(Date.now());
+    setScrapeStatus(status);
+    setScrapeTransport(null);
+
+    let lastNewCount = status.new_count ?? 0;
+    stopWatchingRef.current = watchScrape(
+      {
+        onStatus: (status) => {
+          setScrapeStatus(status);
+          // Polling doesn't deliver rows, so reload when the count moves.
+          if (
+            status.new_count !== undefined &&
+            status.new_count > lastNewCount
+          ) {
+            lastNewCount = status.new_count;
+            setScrapeRefresh((n) => n + 1);
+          }
+        },
+        onAnnouncement: (announcement) => {
+          lastNewCount += 1;
+          if (!matchesFilters(announcement, filtersRef.current)) return;
+          // A server page holds one sorted slice of the results, so a new
+          // row waits for a reload instead of being slotted in
+          if (queryModeRef.current === "server") {
+            setStreamedCount((n) => n + 1);
+            return;
+          }
+          setAnnouncements((current) =>
+            current.some((a) => a.id === announcement.id)
+              ? current
+              : [announcement, ...current]
+          );
+        },
+        onDone: finishScrape,
+        onError: (error) => {
+          console.error("Error checking scrape status:", error);
+        },
+      },
+      setScrapeTransport
+    );
+  };
+
+  const finishScrape = (status: ScrapeStatus) => {
+    stopWatchingRef.current?.();
+    stopWatchingRef.current = null;
+    setScraping(false);
+    setStopping(false);
+    setScrapeStatus({ ...status, running: false });
+    // Reconcile the table and stats with what the run stored
+    setScrapeRefresh((n) => n + 1);
+    fetchStats();
+  };
+
   const startScraping = async () => {
     try {
       setScraping(true);
-      await fetch(`${API_URL}/api/scrape`, { method: "POST" });
-
-      const checkStatus = setInterval(async () => {
-        const response = await fetch(`${API_URL}/api/scrape/status`);
-        const status = await response.json();
-
-        if (!status.running) {
-          clearInterval(checkStatus);
-          setScraping(false);
-          // Auto-reload data when scraping completes
-          await fetchAnnouncements();
-          await fetchStats();
-          alert(status.message + "\n\nPage will refresh to show new results!");
-          window.location.reload();
-        }
-      }, 2000);
-
-      setStatusCheckInterval(checkStatus);
+      // Another tab (or a scheduled run) may have started one already
+      const current = await getScrapeStatus();
+      if (current.running) {
+        toast.info("A scrape is already running. Following its progress.");
+        followScrape(current);
+        return;
+      }
+      await startScrape();
+      followScrape({ running: true, message: "Starting scraper..." });
     } catch (error) {
       console.error("Error starting scrape:", error);
+      if (error instanceof ApiError && error.status === 409) {
+        toast.info("A scrape is already running. Following its progress.");
+        followScrape({ running: true, message: error.message });
+        return;
+      }
+      toast.error(`Could not start scraping: ${describeError(error)}`);
       setScraping(false);
     }
   };
 
-  const stopScraping = () => {
-    if (statusCheckInterval) {
-      clearInterval(statusCheckInterval);
-      setStatusCheckInterval(null);
+  const stopScraping = async () => {
+    try {
+      setStopping(true);
+      const status = await cancelScrape();
+      setCancelRequested(true);
+      // Keep watching until the scraper confirms it has stopped
+      if (status.running) {
+        setScrapeStatus(status);
+      } else {
+        finishScrape({ ...status, cancelled: true });
+      }
+    } catch (error) {
+      console.error("Error stopping scrape:", error);
+      toast.error(`Could not stop scraping: ${describeError(error)}`);
+      setStopping(false);
     }
-    setScraping(false);
-    // Reload data to show what was scraped so far
-    fetchAnnouncements();
-    fetchStats();
-    alert("Scraping stopped! Showing results scraped so far.");
+  };
+
+  const updateFilters = (changes: Partial<AnnouncementFilters>) => {
+    setFilters((current) => ({ ...current, ...changes }));
+    setPage(1);
   };
 
   const clearAllFilters = () => {
-    setSearchTerm("");
-    setFilterType("all");
-    setFilterLocation("all");
-    setFilterProduct("all");
-    setFilterStatus("all");
-    setFilterDateFrom("");
-    setFilterDateTo("");
-    setFilterCompany("");
+    setFilters(DEFAULT_FILTERS);
+    setPage(1);
+  };
+
+  const applyView = (view: SavedView) => {
+    const query = viewQuery(view);
+    setFilters(query.filters);
+    setSort(query.sort);
+    setPage(1);
+  };
+
+  const changeSort = (field: SortField) => {
+    setSort(nextSort(sort, field));
+    setPage(1);
+  };
+
+  const changePageSize = (size: number) => {
+    setPageSize(size);
+    setPage(1);
   };
 
   const startEditingContact = (announcement: Announcement) => {
     setEditingContact(announcement.id);
-    setContactForm({
-      prenom: announcement.prenom || "",
-      adresse: announcement.adresse || "",
-      cod_postal: announcement.cod_postal || "",
-      ville: announcement.ville || "",
-      mail: announcement.mail || "",
-      tel: announcement.tel || "",
-      web_site: announcement.web_site || "",
-      ok: announcement.ok || "",
+  };
+
+  const saveContactInfo = (id: number, contact: ContactInfo) => {
+    const previous = announcements.find((a) => a.id === id);
+    if (!previous) return;
+    setEditingContact(null);
+    rowSaves.save(id, {
+      apply: () => updateRow(id, contact),
+      rollback: () => updateRow(id, contactOf(previous)),
+      failure: "Could not save contact information",
+      send: async () => {
+        const outcome = await offlineQueue.sendOrQueue(
+          () => updateAnnouncementContact(id, contact),
+          contactEdit(previous, contact, user)
+        );
+        if (outcome === "queued") return outcome;
+        recordActivity(
+          id,
+          "Edited contact",
+          changedContactFields(contactOf(previous), contact)
+        );
+      },
     });
   };
 
-  const saveContactInfo = async (id: number) => {
-    try {
-      await fetch(`${API_URL}/api/announcements/${id}/contact`, {
-        method: "PUT",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(contactForm),
-      });
+  const cancelEditing = () => {
+    setEditingContact(null);
+  };
 
-      setAnnouncements(
-        announcements.map((a) => (a.id === id ? { ...a, ...contactForm } : a))
-      );
+  const applyContactUpdates = (updates: Map<number, ContactInfo>) => {
+    setAnnouncements((current) =>
+      current.map((a) => {
+        const contact = updates.get(a.id);
+        return contact ? { ...a, ...contact } : a;
+      })
+    );
+  };
 
-      setEditingContact(null);
-      setContactForm({
-        prenom: "",
-        adresse: "",
-        cod_postal: "",
-        ville: "",
-        mail: "",
-        tel: "",
-        web_site: "",
-        ok: "",
-      });
-    } catch (error) {
-      console.error("Error saving contact info:", error);
-      alert("Error saving contact information. Please try again.");
+  // Loads every row in the export scope, across all pages in server mode.
+  const loadExportRows = async (scope: ExportScope) => {
+    if (scope === "selected") {
+      return sortAnnouncements([...selected.values()], sort);
     }
+    const scopeFilters = scope === "all" ? DEFAULT_FILTERS : filters;
+    if (queryMode === "server") {
+      return (await getAllMatchingAnnouncements(scopeFilters, sort)).items;
+    }
+    return scope === "all"
+      ? sortAnnouncements(announcements, sort)
+      : filteredAnnouncements;
   };
 
-  const cancelEditing = () => {
-    setEditingContact(null);
-    setContactForm({
-      prenom: "",
-      adresse: "",
-      cod_postal: "",
-      ville: "",
-      mail: "",
-      tel: "",
-      web_site: "",
-      ok: "",
-    });
+  const buildExport = async (
+    rows: Announcement[],
+    options: ExportOptions
+  ): Promise<{ content: BlobPart; extension: string; type: string }> => {
+    const columns = resolveColumns(options.columns);
+    switch (options.format) {
+      case "xlsx":
+        return {
+          content: await toXLSX(rows, columns),
+          extension: "xlsx",
+          type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+        };
+      case "json":
+        return {
+          content: toJSON(rows),
+          extension: "json",
+          type: "application/json;charset=utf-8;",
+        };
+      case "ndjson":
+        return {
+          content: toNDJSON(rows),
+          extension: "ndjson",
+          type: "application/x-ndjson;charset=utf-8;",
+        };
+      default:
+        return {
+          content: toCSV(rows, columns, {
+            delimiter: options.delimiter,
+            bom: options.bom,
+          }),
+          extension: "csv",
+          type: "text/csv;charset=utf-8;",
+        };
+    }
   };
 
-  const exportToCSV = async () => {
+  const exportAnnouncements = async (options: ExportOptions) => {
     try {
       setExporting(true);
 
-      // Prepare CSV data
-      const csvHeaders = [
-        "ID",
-        "Company Name",
-        "Title",
-        "Description",
-        "Type",
-        "Location",
-        "Products",
-        "Date",
-        "URL",
-        "Status",
-        "Scraped Date",
-        "Prénom",
-        "Adresse",
-        "Code Postal",
-        "Ville",
-        "Mail",
-        "Téléphone",
-        "Web Site",
-        "OK",
-      ];
-
-      const csvData = filteredAnnouncements.map((announcement) => [
-        announcement.id,
-        `"${announcement.company_name}"`,
-        `"${announcement.announcement_title}"`,
-        `"${announcement.description.replace(/"/g, '""')}"`,
-        `"${announcement.announcement_type}"`,
-        `"${announcement.location}"`,
-        `"${announcement.products}"`,
-        announcement.announcement_date,
-        announcement.announcement_url,
-        announcement.checked === 1 ? "Checked" : "Unchecked",
-        announcement.scraped_date,
-        `"${announcement.prenom || ""}"`,
-        `"${announcement.adresse || ""}"`,
-        `"${announcement.cod_postal || ""}"`,
-        `"${announcement.ville || ""}"`,
-        `"${announcement.mail || ""}"`,
-        `"${announcement.tel || ""}"`,
-        `"${announcement.web_site || ""}"`,
-        `"${announcement.ok || ""}"`,
-      ]);
-
-      // Create CSV content
-      const csvContent = [
-        csvHeaders.join(","),
-        ...csvData.map((row) => row.join(",")),
-      ].join("\n");
+      const rows = await loadExportRows(options.scope);
+      const file = await buildExport(rows, options);
 
       // Create and download file
-      const blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" });
-      const link = document.createElement("a");
-      const url = URL.createObjectURL(blob);
-      link.setAttribute("href", url);
-      link.setAttribute(
-        "download",
-        `espaceagro-announcements-${new Date().toISOString().split("T")[0]}.csv`
+      downloadFile(
+        file.content,
+        `espaceagro-announcements-${todayStamp()}.${file.extension}`,
+        file.type
       );
-      link.style.visibility = "hidden";
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
 
       setExporting(false);
+      setShowExport(null);
     } catch (error) {
-      console.error("Error exporting CSV:", error);
+      console.error("Error exporting announcements:", error);
       setExporting(false);
-      alert("Error exporting CSV. Please try again.");
+      toast.error(`Could not export: ${describeError(error)}`);
     }
   };
 
-  const filteredAnnouncements = Array.isArray(announcements)
-    ? announcements.filter((a) => {
-        // Search filter
-        const matchesSearch =
-          searchTerm === "" ||
-          a.announcement_title
-            .toLowerCase()
-            .includes(searchTerm.toLowerCase()) ||
-          a.description.toLowerCase().includes(searchTerm.toLowerCase()) ||
-          a.location.toLowerCase().includes(searchTerm.toLowerCase()) ||
-          a.products.toLowerCase().includes(searchTerm.toLowerCase()) ||
-          a.company_name.toLowerCase().includes(searchTerm.toLowerCase());
-
-        // Type filter
-        const matchesType =
-          filterType === "all" || a.announcement_type === filterType;
-
-        // Location filter
-        const matchesLocation =
-          filterLocation === "all" || a.location === filterLocation;
-
-        // Product filter
-        const matchesProduct =
-          filterProduct === "all" ||
-          a.products.toLowerCase().includes(filterProduct.toLowerCase());
-
-        // Status filter
-        const matchesStatus =
-          filterStatus === "all" ||
-          (filterStatus === "checked" && a.checked === 1) ||
-          (filterStatus === "unchecked" && a.checked === 0);
-
-        // Date filters
-        const announcementDate = new Date(a.announcement_date);
-        const fromDate = filterDateFrom ? new Date(filterDateFrom) : null;
-        const toDate = filterDateTo ? new Date(filterDateTo) : null;
-
-        const matchesDateFrom = !fromDate || announcementDate >= fromDate;
-        const matchesDateTo = !toDate || announcementDate <= toDate;
-
-        // Company filter
-        const matchesCompany =
-          filterCompany === "" ||
-          a.company_name.toLowerCase().includes(filterCompany.toLowerCase());
-
-        return (
-          matchesSearch &&
-          matchesType &&
-          matchesLocation &&
-          matchesProduct &&
-          matchesStatus &&
-          matchesDateFrom &&
-          matchesDateTo &&
-          matchesCompany
+  // In server mode `announcements` already holds the requested page; in
+  // client mode it holds the full list and is filtered, sorted and paged here.
+  const filteredAnnouncements =
+    queryMode === "server"
+      ? announcements
+      : sortAnnouncements(
+          announcements.filter((a) =>
+            matchesFilters(
+              a,
+              filters,
+              runChanges ? new Set(runChanges.keys()) : null
+            )
+          ),
+          sort
         );
-      })
-    : [];
-
-  // Get unique values for filter dropdowns
-  const uniqueTypes = Array.from(
-    new Set(announcements.map((a) => a.announcement_type))
-  ).filter(Boolean);
-  const uniqueLocations = Array.from(
-    new Set(announcements.map((a) => a.location))
-  ).filter(Boolean);
-  const uniqueProducts = Array.from(
-    new Set(
-      announcements
-        .map((a) => a.products)
-        .flatMap((p) => p.split(",").map((s) => s.trim()))
-    )
-  ).filter(Boolean);
+  const matchingCount =
+    queryMode === "server" ? totalMatching : filteredAnnouncements.length;
+  const loadedCount =
+    queryMode === "server" ? stats.total : announcements.length;
+  const totalPages = Math.max(1, Math.ceil(matchingCount / pageSize));
+  const currentPage = Math.min(page, totalPages);
+  const visibleAnnouncements =
+    queryMode === "server"
+      ? announcements
+      : paginate(filteredAnnouncements, currentPage, pageSize);
+  const queuedIds = new Set(offlineQueue.queued.map((e) => e.id));
+
+  const runNewCount = runChanges
+    ? [...runChanges.values()].filter((c) => c.change === "new").length
+    : 0;
+
+  // Backends that don't count per stage leave it to client mode, where the
+  // full list is at hand.
+  const stageCounts =
+    stats.stages ??
+    (queryMode === "client" ? countByStage(announcements) : null);
+
+  const filterOptions = serverFacets ?? collectFilterOptions(announcements);
+
+  const selectRow = (announcement: Announcement, extendRange: boolean) => {
+    const select = !selected.has(announcement.id);
+    const index = visibleAnnouncements.findIndex(
+      (a) => a.id === announcement.id
+    );
+    const anchorIndex = visibleAnnouncements.findIndex(
+      (a) => a.id === selectionAnchorRef.current
+    );
+    // Shift-click applies the clicked row's new state to every row between
+    // it and the previously clicked one.
+    const rows =
+      extendRange && anchorIndex !== -1
+        ? visibleAnnouncements.slice(
+            Math.min(index, anchorIndex),
+            Math.max(index, anchorIndex) + 1
+          )
+        : [announcement];
+    const next = new Map(selected);
+    for (const row of rows) {
+      if (select) next.set(row.id, row);
+      else next.delete(row.id);
+    }
+    setSelected(next);
+    selectionAnchorRef.current = announcement.id;
+  };
+
+  const pageSelected =
+    visibleAnnouncements.length > 0 &&
+    visibleAnnouncements.every((a) => selected.has(a.id));
+
+  const togglePageSelection = () => {
+    const next = new Map(selected);
+    for (const announcement of visibleAnnouncements) {
+      if (pageSelected) next.delete(announcement.id);
+      else next.set(announcement.id, announcement);
+    }
+    setSelected(next);
+  };
+
+  const selectAllFiltered = async () => {
+    try {
+      setSelectingAll(true);
+      const rows =
+        queryMode === "server"
+          ? (await getAllMatchingAnnouncements(filters, sort)).items
+          : filteredAnnouncements;
+      setSelected(new Map(rows.map((a) => [a.id, a])));
+    } catch (error) {
+      console.error("Error selecting announcements:", error);
+      setError(`Could not select all announcements: ${describeError(error)}`);
+    } finally {
+      setSelectingAll(false);
+    }
+  };
+
+  // Runs one bulk action over the selection, then applies `update` to the
+  // rows that succeeded. Failed rows stay selected so they can be retried.
+  // Bulk changes show on every selected row at once and are then saved row
+  // by row. `change` gives null for rows it leaves as they are.
+  const runBulkAction = async (
+    label: string,
+    change: (announcement: Announcement) => OptimisticChange | null
+  ) => {
+    // Prefer the loaded copy: it reflects edits made since selecting
+    const loaded = new Map(announcements.map((a) => [a.id, a]));
+    const targets = [...selected.values()].map((a) => loaded.get(a.id) ?? a);
+    const changes = targets.flatMap((a) => {
+      const optimistic = change(a);
+      return optimistic
+        ? [[a.id, optimistic] as [number, OptimisticChange]]
+        : [];
+    });
+    setBulkProgress({ label, done: 0, total: changes.length, failed: 0 });
+    const succeeded = await rowSaves.saveAll(changes, (done, failed) =>
+      setBulkProgress({ label, done, total: changes.length, failed })
+    );
+    // Rows that failed stay selected for another try
+    const failed = changes
+      .map(([id]) => id)
+      .filter((id) => !succeeded.includes(id));
+    setSelected((current) => {
+      const next = new Map(current);
+      targets.forEach((a) => {
+        if (!failed.includes(a.id)) next.delete(a.id);
+      });
+      return next;
+    });
+    fetchStats();
+  };
+
+  const bulkMarkChecked = (checked: number) => {
+    const label = checked ? "checked" : "unchecked";
+    if (!confirm(`Mark ${selected.size} announcements as ${label}?`)) return;
+    runBulkAction(`Marking ${label}`, (a) => {
+      const stage = stageForChecked(a, checked);
+      if (stage === stageOf(a)) return null;
+      const { label: stageLabel } = findStage(stages, stage);
+      return {
+        apply: () =>
+          updateRow(a.id, { status: stage, checked: checkedForStage(stage) }),
+        rollback: () =>
+          updateRow(a.id, { status: a.status, checked: a.checked }),
+        failure: "Could not change stage",
+        send: async () => {
+          const outcome = await offlineQueue.sendOrQueue(
+            () => setAnnouncementStatus(a.id, stage),
+            stageEdit(a, stage, stageLabel, user)
+          );
+          if (outcome === "queued") return outcome;
+          recordActivity(a.id, `Moved to ${stageLabel}`, ["status"]);
+        },
+      };
+    });
+  };
+
+  const bulkSetOk = () => {
+    const ok = prompt(
+      `Set the OK field of ${selected.size} announcements to (leave empty to clear it):`
+    );
+    if (ok === null) return;
+    runBulkAction("Setting OK", (a) => {
+      if ((a.ok ?? "") === ok) return null;
+      const contact = { ...contactOf(a), ok };
+      return {
+        apply: () => updateRow(a.id, { ok }),
+        rollback: () => updateRow(a.id, { ok: a.ok }),
+        failure: "Could not save contact information",
+        send: async () => {
+          const outcome = await offlineQueue.sendOrQueue(
+            () => updateAnnouncementContact(a.id, contact),
+            contactEdit(a, contact, user)
+          );
+          if (outcome === "queued") return outcome;
+          recordActivity(
+            a.id,
+            "Edited contact",
+            changedContactFields(contactOf(a), contact)
+          );
+        },
+      };
+    });
+  };
+
+  const bulkDelete = async () => {
+    if (
+      !confirm(`Delete ${selected.size} announcements? This cannot be undone.`)
+    ) {
+      return;
+    }
+    const positions = new Map(announcements.map((a, index) => [a.id, index]));
+    await runBulkAction("Deleting", (a) => ({
+      apply: () =>
+        setAnnouncements((current) => current.filter((row) => row.id !== a.id)),
+      // Back where it was, as near as the rows deleted since allow
+      rollback: () =>
+        setAnnouncements((current) => {
+          if (current.some((row) => row.id === a.id)) return current;
+          const next = [...current];
+          next.splice(positions.get(a.id) ?? next.length, 0, a);
+          return next;
+        }),
+      failure: "Could not delete announcement",
+      send: () => deleteAnnouncement(a.id),
+    }));
+    // Pull the next rows into the page the deleted ones left empty
+    if (queryMode === "server") fetchAnnouncements();
+  };
+
+  // Row clicks open the detail drawer, except clicks on the row's own controls.
+  const openAnnouncement = (event: React.MouseEvent, id: number) => {
+    const target = event.target as HTMLElement;
+    if (target.closest("a, button, input, textarea, select")) return;
+    router.push(`/announcements/${id}${queryString ? `?${queryString}` : ""}`, {
+      scroll: false,
+    });
+  };
+
+  const renderSortableHeader = (label: string, field: SortField) => (
+    <th className="px-4 py-3 text-left text-xs font-medium text-gray-700 uppercase">
+      <button
+        onClick={() => changeSort(field)}
+        className="flex items-center gap-1 uppercase hover:text-gray-900"
+      >
+        {label}
+        <span className="text-gray-400">
+          {sort?.field === field ? (sort.direction === "asc" ? "▲" : "▼") : "↕"}
+        </span>
+      </button>
+    </th>
+  );
 
   return (
     <div className="min-h-screen bg-gray-50 p-8">
@@ -414,9 +933,84 @@ export default function Home() {
             </div>
           </div>
 
+          {/* Pipeline Stages */}
+          {stageCounts && (
+            <div className="flex flex-wrap gap-2 mb-6">
+              {stages.map((stage) => (
+                <button
+                  key={stage.id}
+                  onClick={() =>
+                    updateFilters({
+                      stage: filters.stage === stage.id ? "all" : stage.id,
+                    })
+                  }
+                  className={`flex-1 min-w-[8rem] p-3 rounded-lg text-left ${
+                    STAGE_STYLES[stage.color].card
+                  } ${
+                    filters.stage === stage.id
+                      ? "ring-2 ring-blue-400"
+                      : "hover:ring-1 hover:ring-gray-300"
+                  }`}
+                >
+                  <div className="text-xl font-bold text-gray-800">
+                    {stageCounts[stage.id] ?? 0}
+                  </div>
+                  <div className="text-xs text-gray-600">{stage.label}</div>
+                </button>
+              ))}
+            </div>
+          )}
+
+          {error && (
+            <div className="flex justify-between items-center bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mb-6">
+              <span className="text-sm">⚠️ {error}</span>
+              <button
+                onClick={() => setError(null)}
+                className="text-red-600 hover:text-red-800 text-sm font-medium"
+              >
+                ✕ Dismiss
+              </button>
+            </div>
+          )}
+
+          {staleSince && (
+            <div className="flex justify-between items-center bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded-lg mb-6">
+              <span className="text-sm">
+                📴 The backend can&apos;t be reached. Showing announcements
+                saved {formatDateTime(staleSince)}, which may be out of date.
+              </span>
+              <button
+                onClick={() => fetchAnnouncements()}
+                className="text-yellow-700 hover:text-yellow-900 text-sm font-medium"
+              >
+                🔄 Retry
+              </button>
+            </div>
+          )}
+
+          {offlineQueue.queued.length > 0 && (
+            <OfflineQueuePanel
+              queued={offlineQueue.queued}
+              syncing={offlineQueue.syncing}
+              onSync={offlineQueue.replay}
+              onResolve={offlineQueue.resolve}
+            />
+          )}
+
+          {scrapeStatus && (
+            <ScrapeProgressPanel
+              status={scrapeStatus}
+              localStartedAt={scrapeStartedAt}
+              transport={scrapeTransport}
+              stopping={stopping}
+              cancelRequested={cancelRequested}
+              onDismiss={() => setScrapeStatus(null)}
+            />
+          )}
+
           {/* Action Controls */}
           <div className="flex flex-wrap gap-4 mb-6">
-            {!IS_PRODUCTION && (
+            {can(user.role, "scrape:run") && (
               <>
                 <button
                   onClick={startScraping}
@@ -428,15 +1022,17 @@ export default function Home() {
                 {scraping && (
                   <button
                     onClick={stopScraping}
-                    className="bg-red-600 text-white px-6 py-2 rounded-lg hover:bg-red-700 flex items-center gap-2"
+                    disabled={stopping}
+                    className="bg-red-600 text-white px-6 py-2 rounded-lg hover:bg-red-700 disabled:bg-gray-400 disabled:cursor-not-allowed flex items-center gap-2"
                   >
-                    ⏹️ Stop Scraping
+                    {stopping ? "⏳ Stopping…" : "⏹️ Stop Scraping"}
                   </button>
                 )}
               </>
             )}
             <button
               onClick={() => {
+                setError(null);
                 fetchAnnouncements();
                 fetchStats();
               }}
@@ -450,16 +1046,98 @@ export default function Home() {
             >
               {showAdvancedFilters ? "🔽 Hide Filters" : "🔍 Advanced Filters"}
             </button>
-            <button
-              onClick={exportToCSV}
-              disabled={exporting || filteredAnnouncements.length === 0}
-              className="bg-indigo-600 text-white px-6 py-2 rounded-lg hover:bg-indigo-700 disabled:bg-gray-400 disabled:cursor-not-allowed flex items-center gap-2"
+            <Link
+              href={`/map${queryString ? `?${queryString}` : ""}`}
+              className="bg-amber-600 text-white px-6 py-2 rounded-lg hover:bg-amber-700 flex items-center gap-2"
             >
-              {exporting ? "📊 Exporting..." : "📊 Export CSV"}
-            </button>
+              🗺️ Map
+            </Link>
+            <Link
+              href={`/triage${queryString ? `?${queryString}` : ""}`}
+              className="bg-slate-700 text-white px-6 py-2 rounded-lg hover:bg-slate-800 flex items-center gap-2"
+            >
+              ⌨️ Triage
+            </Link>
+            {canExport && (
+              <button
+                onClick={() => setShowExport("filtered")}
+                disabled={exporting || loadedCount === 0}
+                className="bg-indigo-600 text-white px-6 py-2 rounded-lg hover:bg-indigo-700 disabled:bg-gray-400 disabled:cursor-not-allowed flex items-center gap-2"
+              >
+                {exporting ? "📊 Exporting..." : "📊 Export"}
+              </button>
+            )}
+            {canEdit && (
+              <button
+                onClick={() => setShowImport(true)}
+                className="bg-teal-600 text-white px-6 py-2 rounded-lg hover:bg-teal-700 flex items-center gap-2"
+              >
+                📥 Import Contacts
+              </button>
+            )}
+            {canEdit && (
+              <button
+                onClick={() => setShowNormalize(true)}
+                className="bg-cyan-600 text-white px-6 py-2 rounded-lg hover:bg-cyan-700 flex items-center gap-2"
+              >
+                🧹 Normalize Contacts
+              </button>
+            )}
+            {canEdit && (
+              <button
+                onClick={() => setShowSuggestions(true)}
+                className="bg-amber-500 text-white px-6 py-2 rounded-lg hover:bg-amber-600 flex items-center gap-2"
+              >
+                💡 Suggest Contacts
+              </button>
+            )}
           </div>
         </div>
 
+        {showExport && (
+          <ExportDialog
+            counts={{
+              filtered: matchingCount,
+              selected: selected.size,
+              all: loadedCount,
+            }}
+            initialScope={showExport}
+            exporting={exporting}
+            onExport={exportAnnouncements}
+            onClose={() => setShowExport(null)}
+          />
+        )}
+
+        {showImport && (
+          <ImportWizard
+            loadAnnouncements={async () =>
+              (await getAllMatchingAnnouncements(DEFAULT_FILTERS, null)).items
+            }
+            onApplied={applyContactUpdates}
+            onClose={() => setShowImport(false)}
+          />
+        )}
+
+        {showNormalize && (
+          <NormalizeContactsDialog
+            loadAnnouncements={async () =>
+              (await getAllMatchingAnnouncements(DEFAULT_FILTERS, null)).items
+            }
+            onApplied={applyContactUpdates}
+            onClose={() => setShowNormalize(false)}
+          />
+        )}
+
+        {showSuggestions && (
+          <ContactSuggestionsDialog
+            loadAnnouncements={async () =>
+              (await getAllMatchingAnnouncements(DEFAULT_FILTERS, null)).items
+            }
+            onApplied={applyContactUpdates}
+            onClose={() => setShowSuggestions(false)}
+          />
+        )}
+
         {/* Quick Filters Section */}
         <div className="bg-white rounded-lg shadow-lg p-4 mb-4">
           <div className="flex flex-wrap gap-2 items-center">
@@ -468,12 +1146,12 @@ export default function Home() {
             </span>
             <button
               onClick={() =>
-                setFilterStatus(
-                  filterStatus === "unchecked" ? "all" : "unchecked"
-                )
+                updateFilters({
+                  status: filters.status === "unchecked" ? "all" : "unchecked",
+                })
               }
               className={`px-3 py-1 rounded-full text-sm ${
-                filterStatus === "unchecked"
+                filters.status === "unchecked"
                   ? "bg-yellow-100 text-yellow-800 border border-yellow-300"
                   : "bg-gray-100 text-gray-700 hover:bg-gray-200"
               }`}
@@ -482,21 +1160,36 @@ export default function Home() {
             </button>
             <button
               onClick={() =>
-                setFilterStatus(filterStatus === "checked" ? "all" : "checked")
+                updateFilters({
+                  status: filters.status === "checked" ? "all" : "checked",
+                })
               }
               className={`px-3 py-1 rounded-full text-sm ${
-                filterStatus === "checked"
+                filters.status === "checked"
                   ? "bg-green-100 text-green-800 border border-green-300"
                   : "bg-gray-100 text-gray-700 hover:bg-gray-200"
               }`}
             >
               ✅ Checked Only
             </button>
+            <button
+              onClick={() =>
+                updateFilters({
+                  followUp: filters.followUp === "due" ? "" : "due",
+                })
+              }
+              className={`px-3 py-1 rounded-full text-sm ${
+                filters.followUp === "due"
+                  ? "bg-red-100 text-red-800 border border-red-300"
+                  : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+              }`}
+            >
+              ⏰ Follow-ups Due
+            </button>
             <button
               onClick={() => {
                 const today = new Date().toISOString().split("T")[0];
-                setFilterDateFrom(today);
-                setFilterDateTo("");
+                updateFilters({ dateFrom: today, dateTo: "" });
               }}
               className="px-3 py-1 rounded-full text-sm bg-gray-100 text-gray-700 hover:bg-gray-200"
             >
@@ -508,8 +1201,10 @@ export default function Home() {
                 const weekAgo = new Date(
                   today.getTime() - 7 * 24 * 60 * 60 * 1000
                 );
-                setFilterDateFrom(weekAgo.toISOString().split("T")[0]);
-                setFilterDateTo(today.toISOString().split("T")[0]);
+                updateFilters({
+                  dateFrom: weekAgo.toISOString().split("T")[0],
+                  dateTo: today.toISOString().split("T")[0],
+                });
               }}
               className="px-3 py-1 rounded-full text-sm bg-gray-100 text-gray-700 hover:bg-gray-200"
             >
@@ -521,6 +1216,7 @@ export default function Home() {
             >
               🗑️ Clear All
             </button>
+            <SavedViews filters={filters} sort={sort} onApply={applyView} />
           </div>
         </div>
 
@@ -539,8 +1235,8 @@ export default function Home() {
               <input
                 type="text"
                 placeholder="🔍 Search in title, description, location, products, or company..."
-                value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
+                value={filters.search}
+                onChange={(e) => updateFilters({ search: e.target.value })}
                 className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white text-gray-900 placeholder-gray-500"
               />
             </div>
@@ -553,12 +1249,12 @@ export default function Home() {
                   Type
                 </label>
                 <select
-                  value={filterType}
-                  onChange={(e) => setFilterType(e.target.value)}
+                  value={filters.type}
+                  onChange={(e) => updateFilters({ type: e.target.value })}
                   className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white text-gray-900"
                 >
                   <option value="all">All Types</option>
-                  {uniqueTypes.map((type) => (
+                  {filterOptions.types.map((type) => (
                     <option key={type} value={type}>
                       {type}
                     </option>
@@ -572,12 +1268,12 @@ export default function Home() {
                   Location
                 </label>
                 <select
-                  value={filterLocation}
-                  onChange={(e) => setFilterLocation(e.target.value)}
+                  value={filters.location}
+                  onChange={(e) => updateFilters({ location: e.target.value })}
                   className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white text-gray-900"
                 >
                   <option value="all">All Locations</option>
-                  {uniqueLocations.map((location) => (
+                  {filterOptions.locations.map((location) => (
                     <option key={location} value={location}>
                       {location}
                     </option>
@@ -591,12 +1287,12 @@ export default function Home() {
                   Product
                 </label>
                 <select
-                  value={filterProduct}
-                  onChange={(e) => setFilterProduct(e.target.value)}
+                  value={filters.product}
+                  onChange={(e) => updateFilters({ product: e.target.value })}
                   className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white text-gray-900"
                 >
                   <option value="all">All Products</option>
-                  {uniqueProducts.map((product) => (
+                  {filterOptions.products.map((product) => (
                     <option key={product} value={product}>
                       {product}
                     </option>
@@ -610,8 +1306,8 @@ export default function Home() {
                   Status
                 </label>
                 <select
-                  value={filterStatus}
-                  onChange={(e) => setFilterStatus(e.target.value)}
+                  value={filters.status}
+                  onChange={(e) => updateFilters({ status: e.target.value })}
                   className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white text-gray-900"
                 >
                   <option value="all">All Status</option>
@@ -620,6 +1316,25 @@ export default function Home() {
                 </select>
               </div>
 
+              {/* Stage Filter */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Stage
+                </label>
+                <select
+                  value={filters.stage}
+                  onChange={(e) => updateFilters({ stage: e.target.value })}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white text-gray-900"
+                >
+                  <option value="all">All Stages</option>
+                  {stages.map((stage) => (
+                    <option key={stage.id} value={stage.id}>
+                      {stage.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
               {/* Date From Filter */}
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -627,8 +1342,8 @@ export default function Home() {
                 </label>
                 <input
                   type="date"
-                  value={filterDateFrom}
-                  onChange={(e) => setFilterDateFrom(e.target.value)}
+                  value={filters.dateFrom}
+                  onChange={(e) => updateFilters({ dateFrom: e.target.value })}
                   className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white text-gray-900"
                 />
               </div>
@@ -640,8 +1355,8 @@ export default function Home() {
                 </label>
                 <input
                   type="date"
-                  value={filterDateTo}
-                  onChange={(e) => setFilterDateTo(e.target.value)}
+                  value={filters.dateTo}
+                  onChange={(e) => updateFilters({ dateTo: e.target.value })}
                   className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white text-gray-900"
                 />
               </div>
@@ -655,64 +1370,77 @@ export default function Home() {
               <input
                 type="text"
                 placeholder="Filter by company name..."
-                value={filterCompany}
-                onChange={(e) => setFilterCompany(e.target.value)}
+                value={filters.company}
+                onChange={(e) => updateFilters({ company: e.target.value })}
                 className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white text-gray-900 placeholder-gray-500"
               />
             </div>
 
             {/* Active Filters Display */}
-            {(searchTerm ||
-              filterType !== "all" ||
-              filterLocation !== "all" ||
-              filterProduct !== "all" ||
-              filterStatus !== "all" ||
-              filterDateFrom ||
-              filterDateTo ||
-              filterCompany) && (
+            {hasActiveFilters(filters) && (
               <div className="border-t pt-4">
                 <div className="flex flex-wrap gap-2 items-center mb-2">
                   <span className="text-sm font-medium text-gray-600">
                     Active filters:
                   </span>
-                  {searchTerm && (
+                  {filters.search && (
                     <span className="bg-blue-100 text-blue-800 px-3 py-1 rounded-full text-sm">
-                      Search: &ldquo;{searchTerm}&rdquo;
+                      Search: &ldquo;{filters.search}&rdquo;
                     </span>
                   )}
-                  {filterType !== "all" && (
+                  {filters.type !== "all" && (
                     <span className="bg-green-100 text-green-800 px-3 py-1 rounded-full text-sm">
-                      Type: {filterType}
+                      Type: {filters.type}
                     </span>
                   )}
-                  {filterLocation !== "all" && (
+                  {filters.location !== "all" && (
                     <span className="bg-purple-100 text-purple-800 px-3 py-1 rounded-full text-sm">
-                      Location: {filterLocation}
+                      Location: {filters.location}
                     </span>
                   )}
-                  {filterProduct !== "all" && (
+                  {filters.product !== "all" && (
                     <span className="bg-orange-100 text-orange-800 px-3 py-1 rounded-full text-sm">
-                      Product: {filterProduct}
+                      Product: {filters.product}
+                    </span>
+                  )}
+                  {filters.status !== "all" && (
+                    <span className="bg-yellow-100 text-yellow-800 px-3 py-1 rounded-full text-sm">
+                      Status: {filters.status}
+                    </span>
+                  )}
+                  {filters.followUp === "due" && (
+                    <span className="bg-red-100 text-red-800 px-3 py-1 rounded-full text-sm">
+                      Follow-ups due
                     </span>
                   )}
-                  {filterStatus !== "all" && (
+                  {filters.stage !== "all" && (
                     <span className="bg-yellow-100 text-yellow-800 px-3 py-1 rounded-full text-sm">
-                      Status: {filterStatus}
+                      Stage: {findStage(stages, filters.stage).label}
                     </span>
                   )}
-                  {filterDateFrom && (
+                  {filters.dateFrom && (
                     <span className="bg-indigo-100 text-indigo-800 px-3 py-1 rounded-full text-sm">
-                      From: {filterDateFrom}
+                      From: {filters.dateFrom}
                     </span>
                   )}
-                  {filterDateTo && (
+                  {filters.dateTo && (
                     <span className="bg-indigo-100 text-indigo-800 px-3 py-1 rounded-full text-sm">
-                      To: {filterDateTo}
+                      To: {filters.dateTo}
                     </span>
                   )}
-                  {filterCompany && (
+                  {filters.company && (
                     <span className="bg-pink-100 text-pink-800 px-3 py-1 rounded-full text-sm">
-                      Company: {filterCompany}
+                      Company: {filters.company}
+                    </span>
+                  )}
+                  {filters.member && (
+                    <span className="bg-pink-100 text-pink-800 px-3 py-1 rounded-full text-sm">
+                      Member ID: {filters.member}
+                    </span>
+                  )}
+                  {filters.run && (
+                    <span className="bg-teal-100 text-teal-800 px-3 py-1 rounded-full text-sm">
+                      Scrape run: #{filters.run}
                     </span>
                   )}
                 </div>
@@ -728,23 +1456,77 @@ export default function Home() {
             {/* Results Count and Export Info */}
             <div className="flex justify-between items-center mt-4">
               <div className="text-sm text-gray-600">
-                Showing {filteredAnnouncements.length} of {announcements.length}{" "}
-                announcements
-                {filteredAnnouncements.length !== announcements.length && (
+                Showing {matchingCount} of {loadedCount} announcements
+                {hasActiveFilters(filters) && (
                   <span className="ml-2 text-blue-600 font-medium">
                     (Filtered)
                   </span>
                 )}
               </div>
-              {filteredAnnouncements.length > 0 && (
+              {matchingCount > 0 && (
                 <div className="text-sm text-gray-500">
-                  Ready to export {filteredAnnouncements.length} records
+                  Ready to export {matchingCount} records
                 </div>
               )}
             </div>
           </div>
         )}
 
+        {/* Scrape Run Filter */}
+        {filters.run && (
+          <div className="flex justify-between items-center bg-teal-50 border border-teal-200 text-teal-800 px-4 py-3 rounded-lg mb-4">
+            <span className="text-sm">
+              🕘 Showing announcements introduced or changed by scrape run #
+              {filters.run}
+              {runChanges &&
+                ` (${runNewCount} new, ${
+                  runChanges.size - runNewCount
+                } updated)`}
+            </span>
+            <button
+              onClick={() => updateFilters({ run: "" })}
+              className="text-teal-700 hover:text-teal-900 text-sm font-medium"
+            >
+              ✕ Show all announcements
+            </button>
+          </div>
+        )}
+
+        {streamedCount > 0 && (
+          <div className="flex justify-between items-center bg-blue-50 border border-blue-200 text-blue-800 px-4 py-3 rounded-lg mb-4">
+            <span className="text-sm">
+              🆕 {streamedCount} new announcement
+              {streamedCount === 1 ? "" : "s"} since this page loaded
+            </span>
+            <button
+              onClick={() => fetchAnnouncements()}
+              className="text-blue-700 hover:text-blue-900 text-sm font-medium"
+            >
+              🔄 Reload
+            </button>
+          </div>
+        )}
+
+        {(selected.size > 0 || bulkProgress) && (
+          <BulkActionBar
+            selectedCount={selected.size}
+            matchingCount={matchingCount}
+            selectingAll={selectingAll}
+            progress={bulkProgress}
+            canEdit={canEdit}
+            canExport={canExport}
+            canDelete={can(user.role, "announcement:delete")}
+            offline={offlineQueue.offline}
+            onSelectAllFiltered={selectAllFiltered}
+            onClearSelection={() => setSelected(new Map())}
+            onMarkChecked={bulkMarkChecked}
+            onSetOk={bulkSetOk}
+            onExport={() => setShowExport("selected")}
+            onDelete={bulkDelete}
+            onDismissProgress={() => setBulkProgress(null)}
+          />
+        )}
+
         {/* Data Table */}
         <div className="bg-white rounded-lg shadow-lg overflow-hidden">
           {loading ? (
@@ -754,27 +1536,29 @@ export default function Home() {
               <table className="w-full">
                 <thead className="bg-gray-100 border-b">
                   <tr>
-                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-700 uppercase">
-                      ✓
-                    </th>
-                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-700 uppercase">
-                      Title
+                    <th className="px-4 py-3 text-left">
+                      <input
+                        type="checkbox"
+                        checked={pageSelected}
+                        onChange={togglePageSelection}
+                        title="Select this page"
+                        className="w-4 h-4 cursor-pointer"
+                      />
                     </th>
                     <th className="px-4 py-3 text-left text-xs font-medium text-gray-700 uppercase">
-                      Company
-                    </th>
-                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-700 uppercase">
-                      Type
+                      ✓
                     </th>
                     <th className="px-4 py-3 text-left text-xs font-medium text-gray-700 uppercase">
-                      Location
+                      Stage
                     </th>
+                    {renderSortableHeader("Title", "announcement_title")}
+                    {renderSortableHeader("Company", "company_name")}
+                    {renderSortableHeader("Type", "announcement_type")}
+                    {renderSortableHeader("Location", "location")}
                     <th className="px-4 py-3 text-left text-xs font-medium text-gray-700 uppercase">
                       Products
                     </th>
-                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-700 uppercase">
-                      Date
-                    </th>
+                    {renderSortableHeader("Date", "announcement_date")}
                     <th className="px-4 py-3 text-left text-xs font-medium text-gray-700 uppercase">
                       Contact Info
                     </th>
@@ -784,27 +1568,73 @@ export default function Home() {
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-gray-200">
-                  {filteredAnnouncements.map((announcement) => (
+                  {visibleAnnouncements.map((announcement) => (
                     <tr
                       key={announcement.id}
-                      className={`hover:bg-gray-50 ${
-                        announcement.checked ? "bg-green-50" : ""
+                      onClick={(e) => openAnnouncement(e, announcement.id)}
+                      className={`hover:bg-gray-50 cursor-pointer ${
+                        selected.has(announcement.id)
+                          ? "bg-blue-50"
+                          : announcement.checked
+                          ? "bg-green-50"
+                          : ""
                       }`}
                     >
                       <td className="px-4 py-3">
                         <input
                           type="checkbox"
-                          checked={announcement.checked === 1}
-                          onChange={() =>
-                            toggleCheck(announcement.id, announcement.checked)
+                          checked={selected.has(announcement.id)}
+                          onClick={(e) => selectRow(announcement, e.shiftKey)}
+                          readOnly
+                          title="Select (shift-click for a range)"
+                          className="w-4 h-4 cursor-pointer"
+                        />
+                      </td>
+                      <td className="px-4 py-3">
+                        <div className="flex items-center gap-2">
+                          <input
+                            type="checkbox"
+                            checked={announcement.checked === 1}
+                            onChange={() => toggleCheck(announcement)}
+                            disabled={!canEdit}
+                            className="w-5 h-5 text-green-600 rounded focus:ring-2 focus:ring-green-500 cursor-pointer"
+                          />
+                          <RowSaveIndicator
+                            save={rowSaves.saves.get(announcement.id)}
+                            queued={queuedIds.has(announcement.id)}
+                          />
+                        </div>
+                      </td>
+                      <td className="px-4 py-3">
+                        <StageSelect
+                          stages={stages}
+                          value={stageOf(announcement)}
+                          disabled={!canEdit}
+                          onChange={(stage) =>
+                            changeStage(announcement.id, stage)
                           }
-                          className="w-5 h-5 text-green-600 rounded focus:ring-2 focus:ring-green-500 cursor-pointer"
                         />
                       </td>
                       <td className="px-4 py-3">
                         <div className="text-sm font-medium text-gray-900">
                           {announcement.announcement_title}
                         </div>
+                        {announcement.follow_up_date && (
+                          <span
+                            className={`inline-block mt-1 mr-1 px-2 py-0.5 text-xs rounded-full ${
+                              isFollowUpDue(announcement)
+                                ? "bg-red-100 text-red-800"
+                                : "bg-gray-100 text-gray-700"
+                            }`}
+                          >
+                            ⏰ {announcement.follow_up_date}
+                          </span>
+                        )}
+                        {runChanges?.has(announcement.id) && (
+                          <RunChangeBadge
+                            change={runChanges.get(announcement.id)!}
+                          />
+                        )}
                         <div className="text-xs text-gray-500 mt-1 line-clamp-2">
                           {announcement.description}
                         </div>
@@ -830,123 +1660,18 @@ export default function Home() {
                       </td>
                       <td className="px-4 py-3">
                         {editingContact === announcement.id ? (
-                          <div className="space-y-2 min-w-[300px]">
-                            <div className="grid grid-cols-2 gap-2">
-                              <input
-                                type="text"
-                                placeholder="Prénom"
-                                value={contactForm.prenom}
-                                onChange={(e) =>
-                                  setContactForm({
-                                    ...contactForm,
-                                    prenom: e.target.value,
-                                  })
-                                }
-                                className="px-2 py-1 text-xs border border-gray-300 rounded bg-white text-gray-900"
-                              />
-                              <input
-                                type="text"
-                                placeholder="Code Postal"
-                                value={contactForm.cod_postal}
-                                onChange={(e) =>
-                                  setContactForm({
-                                    ...contactForm,
-                                    cod_postal: e.target.value,
-                                  })
-                                }
-                                className="px-2 py-1 text-xs border border-gray-300 rounded bg-white text-gray-900"
-                              />
-                            </div>
-                            <input
-                              type="text"
-                              placeholder="Adresse"
-                              value={contactForm.adresse}
-                              onChange={(e) =>
-                                setContactForm({
-                                  ...contactForm,
-                                  adresse: e.target.value,
-                                })
-                              }
-                              className="w-full px-2 py-1 text-xs border border-gray-300 rounded bg-white text-gray-900"
-                            />
-                            <div className="grid grid-cols-2 gap-2">
-                              <input
-                                type="text"
-                                placeholder="Ville"
-                                value={contactForm.ville}
-                                onChange={(e) =>
-                                  setContactForm({
-                                    ...contactForm,
-                                    ville: e.target.value,
-                                  })
-                                }
-                                className="px-2 py-1 text-xs border border-gray-300 rounded bg-white text-gray-900"
-                              />
-                              <input
-                                type="text"
-                                placeholder="OK"
-                                value={contactForm.ok}
-                                onChange={(e) =>
-                                  setContactForm({
-                                    ...contactForm,
-                                    ok: e.target.value,
-                                  })
-                                }
-                                className="px-2 py-1 text-xs border border-gray-300 rounded bg-white text-gray-900"
-                              />
-                            </div>
-                            <div className="grid grid-cols-2 gap-2">
-                              <input
-                                type="email"
-                                placeholder="Mail"
-                                value={contactForm.mail}
-                                onChange={(e) =>
-                                  setContactForm({
-                                    ...contactForm,
-                                    mail: e.target.value,
-                                  })
-                                }
-                                className="px-2 py-1 text-xs border border-gray-300 rounded bg-white text-gray-900"
-                              />
-                              <input
-                                type="tel"
-                                placeholder="Téléphone"
-                                value={contactForm.tel}
-                                onChange={(e) =>
-                                  setContactForm({
-                                    ...contactForm,
-                                    tel: e.target.value,
-                                  })
-                                }
-                                className="px-2 py-1 text-xs border border-gray-300 rounded bg-white text-gray-900"
-                              />
-                            </div>
-                            <input
-                              type="url"
-                              placeholder="Web Site"
-                              value={contactForm.web_site}
-                              onChange={(e) =>
-                                setContactForm({
-                                  ...contactForm,
-                                  web_site: e.target.value,
-                                })
+                          <div className="min-w-[300px]">
+                            <ContactForm
+                              initial={contactOf(announcement)}
+                              saving={false}
+                              suggestions={extractContactSuggestions(
+                                announcement
+                              )}
+                              onSave={(contact) =>
+                                saveContactInfo(announcement.id, contact)
                               }
-                              className="w-full px-2 py-1 text-xs border border-gray-300 rounded bg-white text-gray-900"
+                              onCancel={cancelEditing}
                             />
-                            <div className="flex gap-1">
-                              <button
-                                onClick={() => saveContactInfo(announcement.id)}
-                                className="px-2 py-1 text-xs bg-green-600 text-white rounded hover:bg-green-700"
-                              >
-                                ✓ Save
-                              </button>
-                              <button
-                                onClick={cancelEditing}
-                                className="px-2 py-1 text-xs bg-gray-600 text-white rounded hover:bg-gray-700"
-                              >
-                                ✗ Cancel
-                              </button>
-                            </div>
                           </div>
                         ) : (
                           <div className="space-y-1">
@@ -994,14 +1719,18 @@ export default function Home() {
                                 </div>
                               )}
                             </div>
-                            <button
-                              onClick={() => startEditingContact(announcement)}
-                              className="text-xs text-blue-600 hover:text-blue-800 underline"
-                            >
-                              {announcement.prenom
-                                ? "✏️ Edit"
-                                : "➕ Add Contact"}
-                            </button>
+                            {canEdit && (
+                              <button
+                                onClick={() =>
+                                  startEditingContact(announcement)
+                                }
+                                className="text-xs text-blue-600 hover:text-blue-800 underline"
+                              >
+                                {announcement.prenom
+                                  ? "✏️ Edit"
+                                  : "➕ Add Contact"}
+                              </button>
+                            )}
                           </div>
                         )}
                       </td>
@@ -1021,6 +1750,49 @@ export default function Home() {
               </table>
             </div>
           )}
+
+          {/* Pagination */}
+          <div className="flex flex-wrap justify-between items-center gap-4 px-4 py-3 border-t bg-gray-50">
+            <div className="text-sm text-gray-600">
+              {matchingCount === 0
+                ? "No announcements"
+                : `${(currentPage - 1) * pageSize + 1}–${Math.min(
+                    currentPage * pageSize,
+                    matchingCount
+                  )} of ${matchingCount}`}
+            </div>
+            <div className="flex items-center gap-2">
+              <label className="text-sm text-gray-600">Rows per page</label>
+              <select
+                value={pageSize}
+                onChange={(e) => changePageSize(Number(e.target.value))}
+                className="px-2 py-1 text-sm border border-gray-300 rounded bg-white text-gray-900"
+              >
+                {PAGE_SIZES.map((size) => (
+                  <option key={size} value={size}>
+                    {size}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={() => setPage(currentPage - 1)}
+                disabled={currentPage <= 1}
+                className="px-3 py-1 text-sm rounded bg-gray-200 text-gray-700 hover:bg-gray-300 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                ← Prev
+              </button>
+              <span className="text-sm text-gray-600">
+                Page {currentPage} of {totalPages}
+              </span>
+              <button
+                onClick={() => setPage(currentPage + 1)}
+                disabled={currentPage >= totalPages}
+                className="px-3 py-1 text-sm rounded bg-gray-200 text-gray-700 hover:bg-gray-300 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Next →
+              </button>
+            </div>
+          </div>
         </div>
       </div>
     </div>
@@ -0,0 +1,300 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import OfflineQueuePanel from "@/components/OfflineQueuePanel";
+import RowSaveIndicator from "@/components/RowSaveIndicator";
+import StageEditor from "@/components/StageEditor";
+import { recordActivity } from "@/lib/activity";
+import {
+  describeError,
+  getAllMatchingAnnouncements,
+  isAbortError,
+  savePipelineStages,
+  setAnnouncementStatus,
+} from "@/lib/api";
+import { isDuplicate } from "@/lib/duplicates";
+import { DEFAULT_FILTERS, matchesFilters } from "@/lib/filters";
+import { stageEdit, withQueuedEdits } from "@/lib/offlineQueue";
+import { can } from "@/lib/permissions";
+import {
+  checkedForStage,
+  findStage,
+  STAGE_STYLES,
+  stageOf,
+} from "@/lib/pipeline";
+import type { PipelineStage } from "@/lib/pipeline";
+import { useToast } from "@/lib/toast";
+import type { Announcement } from "@/lib/types";
+import { useCurrentUser } from "@/lib/useCurrentUser";
+import { useOfflineQueue } from "@/lib/useOfflineQueue";
+import { usePipelineStages } from "@/lib/usePipelineStages";
+import { useRowSaves } from "@/lib/useRowSaves";
+
+// Columns stay usable with thousands of "New" announcements
+const CARDS_PER_STAGE = 50;
+
+export default function PipelinePage() {
+  const { user, loaded: userLoaded } = useCurrentUser();
+  const canEdit = can(user.role, "announcement:edit");
+  const { stages, setStages } = usePipelineStages();
+  const [announcements, setAnnouncements] = useState<Announcement[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState("");
+  const [dragOver, setDragOver] = useState<string | null>(null);
+  const rowSaves = useRowSaves();
+  const toast = useToast();
+  const [editingStages, setEditingStages] = useState(false);
+  const [savingStages, setSavingStages] = useState(false);
+  const offlineQueue = useOfflineQueue(user, userLoaded, () =>
+    fetchAnnouncements()
+  );
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetchAnnouncements(controller.signal);
+    return () => controller.abort();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Edits still waiting to be sent show over whatever was loaded
+  useEffect(() => {
+    setAnnouncements((current) =>
+      withQueuedEdits(current, offlineQueue.queued)
+    );
+  }, [offlineQueue.queued]);
+
+  const fetchAnnouncements = async (signal?: AbortSignal) => {
+    try {
+      setLoading(true);
+      setError(null);
+      const result = await getAllMatchingAnnouncements(DEFAULT_FILTERS, null, {
+        signal,
+      });
+      setAnnouncements(
+        withQueuedEdits(
+          result.items.filter((a) => !isDuplicate(a)),
+          offlineQueue.queued
+        )
+      );
+      setLoading(false);
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error("Error fetching announcements:", error);
+      setError(`Could not load announcements: ${describeError(error)}`);
+      setLoading(false);
+    }
+  };
+
+  const updateCard = (id: number, changes: Partial<Announcement>) =>
+    setAnnouncements((current) =>
+      current.map((a) => (a.id === id ? { ...a, ...changes } : a))
+    );
+
+  const moveToStage = (id: number, stage: string) => {
+    const announcement = announcements.find((a) => a.id === id);
+    if (!announcement || stageOf(announcement) === stage) return;
+    const { status, checked } = announcement;
+    rowSaves.save(id, {
+      apply: () =>
+        updateCard(id, { status: stage, checked: checkedForStage(stage) }),
+      rollback: () => updateCard(id, { status, checked }),
+      failure: "Could not move announcement",
+      send: async () => {
+        const { label } = findStage(stages, stage);
+        const outcome = await offlineQueue.sendOrQueue(
+          () => setAnnouncementStatus(id, stage),
+          stageEdit(announcement, stage, label, user)
+        );
+        if (outcome === "queued") return outcome;
+        recordActivity(id, `Moved to ${label}`, ["status"]);
+      },
+    });
+  };
+
+  const saveStages = async (next: PipelineStage[]) => {
+    try {
+      setSavingStages(true);
+      setStages(await savePipelineStages(next));
+      setEditingStages(false);
+    } catch (error) {
+      console.error("Error saving pipeline stages:", error);
+      toast.error(`Could not save stages: ${describeError(error)}`);
+    } finally {
+      setSavingStages(false);
+    }
+  };
+
+  const visible = announcements.filter((a) =>
+    matchesFilters(a, { ...DEFAULT_FILTERS, search })
+  );
+  const byStage = new Map<string, Announcement[]>();
+  for (const announcement of visible) {
+    const stage = stageOf(announcement);
+    byStage.set(stage, [...(byStage.get(stage) ?? []), announcement]);
+  }
+  // Stages removed from the pipeline still get a column while records use them
+  const columns = [
+    ...stages,
+    ...[...byStage.keys()]
+      .filter((id) => !stages.some((s) => s.id === id))
+      .map((id) => findStage(stages, id)),
+  ];
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <div className="max-w-full mx-auto">
+        <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+          <div className="flex justify-between items-center mb-4">
+            <h1 className="text-3xl font-bold text-gray-800">Lead Pipeline</h1>
+            <div className="flex gap-2">
+              {can(user.role, "pipeline:manage") && !editingStages && (
+                <button
+                  onClick={() => setEditingStages(true)}
+                  className="bg-gray-600 text-white px-6 py-2 rounded-lg hover:bg-gray-700 flex items-center gap-2"
+                >
+                  ⚙️ Configure Stages
+                </button>
+              )}
+              <button
+                onClick={() => fetchAnnouncements()}
+                className="bg-green-600 text-white px-6 py-2 rounded-lg hover:bg-green-700 flex items-center gap-2"
+              >
+                🔄 Refresh
+              </button>
+            </div>
+          </div>
+          <input
+            type="text"
+            placeholder="Search by title, company, location or product..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900"
+          />
+          {error && (
+            <div className="flex justify-between items-center bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mt-4">
+              <span className="text-sm">⚠️ {error}</span>
+              <button
+                onClick={() => setError(null)}
+                className="text-red-600 hover:text-red-800 text-sm font-medium"
+              >
+                ✕ Dismiss
+              </button>
+            </div>
+          )}
+        </div>
+
+        {offlineQueue.queued.length > 0 && (
+          <OfflineQueuePanel
+            queued={offlineQueue.queued}
+            syncing={offlineQueue.syncing}
+            onSync={offlineQueue.replay}
+            onResolve={offlineQueue.resolve}
+          />
+        )}
+
+        {editingStages && (
+          <StageEditor
+            stages={stages}
+            saving={savingStages}
+            onSave={saveStages}
+            onCancel={() => setEditingStages(false)}
+          />
+        )}
+
+        {loading ? (
+          <div className="p-8 text-center text-gray-500">Loading...</div>
+        ) : (
+          <div className="flex gap-4 overflow-x-auto pb-4">
+            {columns.map((stage) => {
+              const cards = byStage.get(stage.id) ?? [];
+              return (
+                <div
+                  key={stage.id}
+                  onDragOver={(e) => {
+                    e.preventDefault();
+                    setDragOver(stage.id);
+                  }}
+                  onDragLeave={() => setDragOver(null)}
+                  onDrop={(e) => {
+                    e.preventDefault();
+                    setDragOver(null);
+                    moveToStage(
+                      Number(e.dataTransfer.getData("text/plain")),
+                      stage.id
+                    );
+                  }}
+                  className={`flex-shrink-0 w-72 rounded-lg p-3 ${
+                    STAGE_STYLES[stage.color].card
+                  } ${dragOver === stage.id ? "ring-2 ring-blue-400" : ""}`}
+                >
+                  <div className="flex justify-between items-center mb-3">
+                    <span
+                      className={`px-2 py-1 text-xs font-semibold rounded-full ${
+                        STAGE_STYLES[stage.color].badge
+                      }`}
+                    >
+                      {stage.label}
+                    </span>
+                    <span className="text-sm text-gray-600">
+                      {cards.length}
+                    </span>
+                  </div>
+                  <div className="space-y-2 min-h-[4rem]">
+                    {cards.slice(0, CARDS_PER_STAGE).map((announcement) => (
+                      <div
+                        key={announcement.id}
+                        draggable={canEdit}
+                        onDragStart={(e) =>
+                          e.dataTransfer.setData(
+                            "text/plain",
+                            String(announcement.id)
+                          )
+                        }
+                        className={`bg-white rounded shadow-sm p-2 text-sm ${
+                          canEdit ? "cursor-grab" : ""
+                        } ${
+                          rowSaves.saves.get(announcement.id)?.status ===
+                          "pending"
+                            ? "opacity-50"
+                            : ""
+                        }`}
+                      >
+                        <div className="float-right">
+                          <RowSaveIndicator
+                            save={rowSaves.saves.get(announcement.id)}
+                          />
+                        </div>
+                        <Link
+                          href={`/announcements/${announcement.id}`}
+                          className="font-medium text-gray-900 hover:text-blue-700 line-clamp-2"
+                        >
+                          {announcement.announcement_title}
+                        </Link>
+                        <div className="text-xs text-gray-600 mt-1">
+                          {announcement.company_name}
+                        </div>
+                        <div className="text-xs text-gray-400">
+                          {announcement.announcement_date}
+                        </div>
+                      </div>
+                    ))}
+                    {cards.length > CARDS_PER_STAGE && (
+                      <Link
+                        href={`/?stage=${encodeURIComponent(stage.id)}`}
+                        className="block text-center text-xs text-blue-600 hover:text-blue-800"
+                      >
+                        +{cards.length - CARDS_PER_STAGE} more in the table →
+                      </Link>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import RunStatusBadge from "@/components/RunStatusBadge";
+import { describeError, getScrapeRuns, isAbortError } from "@/lib/api";
+import { formatDateTime } from "@/lib/format";
+import type { ScrapeRun } from "@/lib/types";
+
+export default function RunsPage() {
+  const [runs, setRuns] = useState<ScrapeRun[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetchRuns(controller.signal);
+    return () => controller.abort();
+  }, []);
+
+  const fetchRuns = async (signal?: AbortSignal) => {
+    try {
+      setLoading(true);
+      setError(null);
+      setRuns(await getScrapeRuns({ signal }));
+      setLoading(false);
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error("Error fetching scrape runs:", error);
+      setError(`Could not load scrape runs: ${describeError(error)}`);
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <div className="max-w-7xl mx-auto">
+        <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+          <div className="flex justify-between items-center">
+            <h1 className="text-3xl font-bold text-gray-800">Scrape Runs</h1>
+            <button
+              onClick={() => fetchRuns()}
+              className="bg-green-600 text-white px-6 py-2 rounded-lg hover:bg-green-700 flex items-center gap-2"
+            >
+              🔄 Refresh
+            </button>
+          </div>
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mt-6 text-sm">
+              ⚠️ {error}
+            </div>
+          )}
+        </div>
+
+        <div className="bg-white rounded-lg shadow-lg overflow-hidden">
+          {loading ? (
+            <div className="p-8 text-center text-gray-500">Loading...</div>
+          ) : runs.length === 0 ? (
+            <div className="p-8 text-center text-gray-500">
+              No scrape runs recorded yet.
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-gray-100 border-b">
+                  <tr>
+                    {[
+                      "Run",
+                      "Started",
+                      "Finished",
+                      "Trigger",
+                      "Status",
+                      "New",
+                      "Updated",
+                      "Unchanged",
+                      "Errors",
+                      "",
+                    ].map((label) => (
+                      <th
+                        key={label}
+                        className="px-4 py-3 text-left text-xs font-medium text-gray-700 uppercase"
+                      >
+                        {label}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {runs.map((run) => (
+                    <tr key={run.id} className="hover:bg-gray-50 align-top">
+                      <td className="px-4 py-3 text-sm font-medium text-gray-900">
+                        #{run.id}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-600">
+                        {formatDateTime(run.started_at)}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-600">
+                        {formatDateTime(run.finished_at)}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-700">
+                        {run.trigger === "scheduled"
+                          ? "⏰ Scheduled"
+                          : "👤 Manual"}
+                      </td>
+                      <td className="px-4 py-3">
+                        <RunStatusBadge status={run.status} />
+                      </td>
+                      <td className="px-4 py-3 text-sm text-teal-700 font-medium">
+                        {run.new_count}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-amber-700 font-medium">
+                        {run.updated_count}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-600">
+                        {run.unchanged_count}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-600">
+                        {run.errors.length === 0 ? (
+                          "0"
+                        ) : (
+                          <details>
+                            <summary className="cursor-pointer text-red-700">
+                              {run.errors.length}
+                            </summary>
+                            <ul className="mt-1 text-xs text-red-700 list-disc list-inside max-w-xs">
+                              {run.errors.map((message, index) => (
+                                <li key={index}>{message}</li>
+                              ))}
+                            </ul>
+                          </details>
+                        )}
+                      </td>
+                      <td className="px-4 py-3">
+                        {run.new_count + run.updated_count > 0 && (
+                          <Link
+                            href={`/?run=${run.id}`}
+                            className="text-blue-600 hover:text-blue-800 text-sm whitespace-nowrap"
+                          >
+                            View changes →
+                          </Link>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,270 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import RunStatusBadge from "@/components/RunStatusBadge";
+import ScheduleForm from "@/components/ScheduleForm";
+import {
+  createSchedule,
+  deleteSchedule,
+  describeError,
+  getSchedules,
+  isAbortError,
+  updateSchedule,
+} from "@/lib/api";
+import { describeCron } from "@/lib/cron";
+import { formatDateTime } from "@/lib/format";
+import { can } from "@/lib/permissions";
+import type { ScrapeSchedule, ScrapeScheduleInput } from "@/lib/types";
+import { useCurrentUser } from "@/lib/useCurrentUser";
+
+export default function SchedulesPage() {
+  const { user, loaded } = useCurrentUser();
+  const [schedules, setSchedules] = useState<ScrapeSchedule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // null: form closed, "new": creating, otherwise the schedule being edited
+  const [editing, setEditing] = useState<ScrapeSchedule | "new" | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [busyId, setBusyId] = useState<number | null>(null);
+
+  const canManage = can(user.role, "schedule:manage");
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetchSchedules(controller.signal);
+    return () => controller.abort();
+  }, []);
+
+  const fetchSchedules = async (signal?: AbortSignal) => {
+    try {
+      setSchedules(await getSchedules({ signal }));
+      setLoading(false);
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error("Error fetching schedules:", error);
+      setError(`Could not load schedules: ${describeError(error)}`);
+      setLoading(false);
+    }
+  };
+
+  const replaceSchedule = (updated: ScrapeSchedule) => {
+    setSchedules((current) =>
+      current.map((s) => (s.id === updated.id ? updated : s))
+    );
+  };
+
+  const saveSchedule = async (input: ScrapeScheduleInput) => {
+    try {
+      setSaving(true);
+      if (editing === "new") {
+        const created = await createSchedule(input);
+        setSchedules((current) => [...current, created]);
+      } else if (editing) {
+        replaceSchedule(await updateSchedule(editing.id, input));
+      }
+      setEditing(null);
+    } catch (error) {
+      console.error("Error saving schedule:", error);
+      setError(`Could not save schedule: ${describeError(error)}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const togglePaused = async (schedule: ScrapeSchedule) => {
+    try {
+      setBusyId(schedule.id);
+      replaceSchedule(
+        await updateSchedule(schedule.id, { paused: !schedule.paused })
+      );
+    } catch (error) {
+      console.error("Error updating schedule:", error);
+      setError(`Could not update schedule: ${describeError(error)}`);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const removeSchedule = async (schedule: ScrapeSchedule) => {
+    if (!confirm(`Delete the schedule "${schedule.name}"?`)) return;
+    try {
+      setBusyId(schedule.id);
+      await deleteSchedule(schedule.id);
+      setSchedules((current) => current.filter((s) => s.id !== schedule.id));
+    } catch (error) {
+      console.error("Error deleting schedule:", error);
+      setError(`Could not delete schedule: ${describeError(error)}`);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <div className="max-w-7xl mx-auto">
+        <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+          <div className="flex justify-between items-center">
+            <h1 className="text-3xl font-bold text-gray-800">
+              Scheduled Scraping
+            </h1>
+            {canManage && editing === null && (
+              <button
+                onClick={() => setEditing("new")}
+                className="bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 flex items-center gap-2"
+              >
+                ➕ New Schedule
+              </button>
+            )}
+          </div>
+          {loaded && !canManage && (
+            <div className="text-sm text-gray-500 mt-4">
+              You can view schedules, but only admins can change them.
+            </div>
+          )}
+          {error && (
+            <div className="flex justify-between items-center bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mt-6">
+              <span className="text-sm">⚠️ {error}</span>
+              <button
+                onClick={() => setError(null)}
+                className="text-red-600 hover:text-red-800 text-sm font-medium"
+              >
+                ✕ Dismiss
+              </button>
+            </div>
+          )}
+        </div>
+
+        {editing !== null && (
+          <ScheduleForm
+            key={editing === "new" ? "new" : editing.id}
+            schedule={editing === "new" ? null : editing}
+            saving={saving}
+            onSave={saveSchedule}
+            onCancel={() => setEditing(null)}
+          />
+        )}
+
+        <div className="bg-white rounded-lg shadow-lg overflow-hidden">
+          {loading ? (
+            <div className="p-8 text-center text-gray-500">Loading...</div>
+          ) : schedules.length === 0 ? (
+            <div className="p-8 text-center text-gray-500">
+              No schedules yet.
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-gray-100 border-b">
+                  <tr>
+                    {[
+                      "Schedule",
+                      "When",
+                      "Covers",
+                      "Next Run",
+                      "Last Outcome",
+                      "",
+                    ].map((label) => (
+                      <th
+                        key={label}
+                        className="px-4 py-3 text-left text-xs font-medium text-gray-700 uppercase"
+                      >
+                        {label}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {schedules.map((schedule) => (
+                    <tr
+                      key={schedule.id}
+                      className={`hover:bg-gray-50 ${
+                        schedule.paused ? "opacity-60" : ""
+                      }`}
+                    >
+                      <td className="px-4 py-3">
+                        <div className="text-sm font-medium text-gray-900">
+                          {schedule.name}
+                        </div>
+                        {schedule.paused && (
+                          <span className="text-xs text-gray-500">
+                            ⏸️ Paused
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-700">
+                        {describeCron(schedule.cron)}
+                      </td>
+                      <td className="px-4 py-3 text-xs text-gray-600">
+                        <div>
+                          <strong>Types:</strong>{" "}
+                          {schedule.announcement_types.join(", ") || "All"}
+                        </div>
+                        <div>
+                          <strong>Categories:</strong>{" "}
+                          {schedule.categories.join(", ") || "All"}
+                        </div>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-600">
+                        {schedule.paused
+                          ? "—"
+                          : formatDateTime(schedule.next_run_at)}
+                      </td>
+                      <td className="px-4 py-3 text-sm">
+                        {schedule.last_run_status ? (
+                          <div className="space-y-1">
+                            <RunStatusBadge status={schedule.last_run_status} />
+                            <div className="text-xs text-gray-500">
+                              {formatDateTime(schedule.last_run_at)}
+                            </div>
+                            {schedule.last_run_id !== undefined && (
+                              <Link
+                                href={`/?run=${schedule.last_run_id}`}
+                                className="text-xs text-blue-600 hover:text-blue-800"
+                              >
+                                View changes →
+                              </Link>
+                            )}
+                          </div>
+                        ) : (
+                          <span className="text-gray-500">Never run</span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3">
+                        {canManage && (
+                          <div className="flex gap-2 text-sm whitespace-nowrap">
+                            <button
+                              onClick={() => togglePaused(schedule)}
+                              disabled={busyId === schedule.id}
+                              className="text-purple-600 hover:text-purple-800 disabled:opacity-50"
+                            >
+                              {schedule.paused ? "▶️ Resume" : "⏸️ Pause"}
+                            </button>
+                            <button
+                              onClick={() => setEditing(schedule)}
+                              disabled={busyId === schedule.id}
+                              className="text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                            >
+                              ✏️ Edit
+                            </button>
+                            <button
+                              onClick={() => removeSchedule(schedule)}
+                              disabled={busyId === schedule.id}
+                              className="text-red-600 hover:text-red-800 disabled:opacity-50"
+                            >
+                              🗑️ Delete
+                            </button>
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,367 @@
+"use client";
+
+import { Suspense, useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import ContactForm from "@/components/ContactForm";
+import OfflineQueuePanel from "@/components/OfflineQueuePanel";
+import RowSaveIndicator from "@/components/RowSaveIndicator";
+import TriageCard from "@/components/TriageCard";
+import { recordActivity } from "@/lib/activity";
+import {
+  describeError,
+  getFilteredAnnouncements,
+  isAbortError,
+  setAnnouncementStatus,
+  updateAnnouncementContact,
+} from "@/lib/api";
+import { changedContactFields, contactOf } from "@/lib/contact";
+import { extractContactSuggestions } from "@/lib/contactExtraction";
+import { isDuplicate } from "@/lib/duplicates";
+import { contactEdit, stageEdit, withQueuedEdits } from "@/lib/offlineQueue";
+import { can } from "@/lib/permissions";
+import {
+  checkedForStage,
+  findStage,
+  stageForChecked,
+  stageOf,
+} from "@/lib/pipeline";
+import type { Announcement, ContactInfo } from "@/lib/types";
+import { readQuery } from "@/lib/urlState";
+import { useCurrentUser } from "@/lib/useCurrentUser";
+import { useOfflineQueue } from "@/lib/useOfflineQueue";
+import { usePipelineStages } from "@/lib/usePipelineStages";
+import { useRowSaves } from "@/lib/useRowSaves";
+
+const SHORTCUTS = [
+  { keys: "C", label: "Check and go to the next", edits: true },
+  { keys: "U", label: "Uncheck", edits: true },
+  { keys: "S / →", label: "Skip", edits: false },
+  { keys: "←", label: "Previous", edits: false },
+  { keys: "O", label: "Open the listing", edits: false },
+  { keys: "E", label: "Edit contact", edits: true },
+  { keys: "K", label: "Set OK", edits: true },
+  { keys: "Esc", label: "Close the form", edits: true },
+];
+
+export default function TriagePage() {
+  // useSearchParams needs a Suspense boundary so the page can still be
+  // prerendered.
+  return (
+    <Suspense
+      fallback={
+        <div className="min-h-screen bg-gray-50 p-8 text-center text-gray-500">
+          Loading...
+        </div>
+      }
+    >
+      <Triage />
+    </Suspense>
+  );
+}
+
+function Triage() {
+  const searchParams = useSearchParams();
+  // Triage walks what the dashboard shows, in the same order
+  const queryString = searchParams.toString();
+  const { user, loaded: userLoaded } = useCurrentUser();
+  const canEdit = can(user.role, "announcement:edit");
+  // Fixed when loaded, so checking a record doesn't reshuffle the ones left
+  const [items, setItems] = useState<Announcement[]>([]);
+  const [index, setIndex] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState<"contact" | "ok" | null>(null);
+  const [okDraft, setOkDraft] = useState("");
+  const okInputRef = useRef<HTMLInputElement>(null);
+  const rowSaves = useRowSaves();
+  const { stages } = usePipelineStages();
+  // Reloading would lose the place in the queue; the saved rows already show
+  const offlineQueue = useOfflineQueue(user, userLoaded, () => {});
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const { filters, sort } = readQuery(new URLSearchParams(queryString));
+    setLoading(true);
+    setError(null);
+    getFilteredAnnouncements(filters, sort, { signal: controller.signal })
+      .then((announcements) => {
+        setItems(
+          withQueuedEdits(
+            announcements.filter((a) => !isDuplicate(a)),
+            offlineQueue.queued
+          )
+        );
+        setIndex(0);
+        setLoading(false);
+      })
+      .catch((error) => {
+        if (isAbortError(error)) return;
+        console.error("Error fetching announcements:", error);
+        setError(`Could not load announcements: ${describeError(error)}`);
+        setLoading(false);
+      });
+    return () => controller.abort();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [queryString]);
+
+  // Edits still waiting to be sent show over whatever was loaded
+  useEffect(() => {
+    setItems((current) => withQueuedEdits(current, offlineQueue.queued));
+  }, [offlineQueue.queued]);
+
+  useEffect(() => {
+    if (editing === "ok") okInputRef.current?.focus();
+  }, [editing]);
+
+  const current = items[index] as Announcement | undefined;
+
+  const updateItem = (id: number, changes: Partial<Announcement>) =>
+    setItems((all) => all.map((a) => (a.id === id ? { ...a, ...changes } : a)));
+
+  const move = (offset: number) => {
+    setEditing(null);
+    setIndex((i) => Math.min(items.length, Math.max(0, i + offset)));
+  };
+
+  // Saves run in the background so triage can move on; failures come back
+  // as a toast with a retry.
+  // Checking moves the record through the pipeline like the dashboard does
+  const setChecked = (checked: number, advance: boolean) => {
+    if (!current || !canEdit) return;
+    const { id, status, checked: previous } = current;
+    const stage = stageForChecked(current, checked);
+    if (stage !== stageOf(current)) {
+      const { label } = findStage(stages, stage);
+      rowSaves.save(id, {
+        apply: () =>
+          updateItem(id, { status: stage, checked: checkedForStage(stage) }),
+        rollback: () => updateItem(id, { status, checked: previous }),
+        failure: "Could not update announcement",
+        send: async () => {
+          const outcome = await offlineQueue.sendOrQueue(
+            () => setAnnouncementStatus(id, stage),
+            stageEdit(current, stage, label, user)
+          );
+          if (outcome === "queued") return outcome;
+          recordActivity(id, `Moved to ${label}`, ["status"]);
+        },
+      });
+    }
+    if (advance) move(1);
+  };
+
+  const saveContact = (contact: ContactInfo) => {
+    if (!current) return;
+    const { id } = current;
+    const previous = contactOf(current);
+    setEditing(null);
+    rowSaves.save(id, {
+      apply: () => updateItem(id, contact),
+      rollback: () => updateItem(id, previous),
+      failure: "Could not save contact",
+      send: async () => {
+        const outcome = await offlineQueue.sendOrQueue(
+          () => updateAnnouncementContact(id, contact),
+          contactEdit(current, contact, user)
+        );
+        if (outcome === "queued") return outcome;
+        recordActivity(
+          id,
+          "Edited contact",
+          changedContactFields(previous, contact)
+        );
+      },
+    });
+  };
+
+  const startEditing = (mode: "contact" | "ok") => {
+    if (!current || !canEdit) return;
+    setOkDraft(current.ok ?? "");
+    setEditing(mode);
+  };
+
+  // Shortcuts are off while typing in a field and while a form is open
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape" && editing) {
+        setEditing(null);
+        return;
+      }
+      const target = e.target as HTMLElement;
+      if (target.closest("input, textarea, select") || editing) return;
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+      switch (e.key.toLowerCase()) {
+        case "c":
+          setChecked(1, true);
+          break;
+        case "u":
+          setChecked(0, false);
+          break;
+        case "s":
+        case "arrowright":
+          move(1);
+          break;
+        case "arrowleft":
+          move(-1);
+          break;
+        case "o":
+          if (current) {
+            window.open(
+              current.announcement_url,
+              "_blank",
+              "noopener,noreferrer"
+            );
+          }
+          break;
+        case "e":
+          startEditing("contact");
+          break;
+        case "k":
+          startEditing("ok");
+          break;
+        default:
+          return;
+      }
+      e.preventDefault();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  });
+
+  const remaining = items.length - index;
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <div className="max-w-4xl mx-auto">
+        <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+          <div className="flex justify-between items-center mb-3">
+            <h1 className="text-3xl font-bold text-gray-800">Triage</h1>
+            <Link
+              href={queryString ? `/?${queryString}` : "/"}
+              className="bg-gray-600 text-white px-6 py-2 rounded-lg hover:bg-gray-700 flex items-center gap-2"
+            >
+              📋 Back to Table
+            </Link>
+          </div>
+          {!loading && (
+            <>
+              <div className="flex justify-between text-sm text-gray-600 mb-1">
+                <span className="flex items-center gap-2">
+                  {Math.min(index + 1, items.length)} of {items.length}
+                  {current && (
+                    <RowSaveIndicator save={rowSaves.saves.get(current.id)} />
+                  )}
+                </span>
+                <span>{remaining} remaining</span>
+              </div>
+              <div className="w-full bg-gray-200 rounded-full h-2">
+                <div
+                  className="bg-blue-600 h-2 rounded-full"
+                  style={{
+                    width: `${
+                      items.length ? (index / items.length) * 100 : 0
+                    }%`,
+                  }}
+                />
+              </div>
+            </>
+          )}
+          {error && (
+            <div className="flex justify-between items-center bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mt-4">
+              <span className="text-sm">⚠️ {error}</span>
+              <button
+                onClick={() => setError(null)}
+                className="text-red-600 hover:text-red-800 text-sm font-medium"
+              >
+                ✕ Dismiss
+              </button>
+            </div>
+          )}
+        </div>
+
+        {offlineQueue.queued.length > 0 && (
+          <OfflineQueuePanel
+            queued={offlineQueue.queued}
+            syncing={offlineQueue.syncing}
+            onSync={offlineQueue.replay}
+            onResolve={offlineQueue.resolve}
+          />
+        )}
+
+        {loading ? (
+          <div className="p-8 text-center text-gray-500">Loading...</div>
+        ) : !current ? (
+          <div className="bg-white rounded-lg shadow-lg p-8 text-center">
+            <div className="text-lg text-gray-800 mb-2">
+              {items.length === 0
+                ? "No announcements match the current filters."
+                : "✅ All done."}
+            </div>
+            {items.length > 0 && (
+              <button
+                onClick={() => setIndex(0)}
+                className="text-sm text-blue-600 hover:text-blue-800"
+              >
+                Start over
+              </button>
+            )}
+          </div>
+        ) : (
+          <div className="bg-white rounded-lg shadow-lg p-6">
+            <TriageCard announcement={current} />
+
+            {editing === "contact" && (
+              <div className="mt-4">
+                <ContactForm
+                  key={current.id}
+                  initial={contactOf(current)}
+                  saving={false}
+                  onSave={saveContact}
+                  onCancel={() => setEditing(null)}
+                  suggestions={extractContactSuggestions(current)}
+                />
+              </div>
+            )}
+            {editing === "ok" && (
+              <div className="mt-4 flex gap-2">
+                <input
+                  ref={okInputRef}
+                  type="text"
+                  placeholder="OK"
+                  value={okDraft}
+                  onChange={(e) => setOkDraft(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") {
+                      saveContact({ ...contactOf(current), ok: okDraft });
+                    }
+                  }}
+                  className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900"
+                />
+                <button
+                  onClick={() =>
+                    saveContact({ ...contactOf(current), ok: okDraft })
+                  }
+                  className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700"
+                >
+                  ✓ Save
+                </button>
+              </div>
+            )}
+
+            <div className="flex flex-wrap gap-2 mt-6 pt-4 border-t">
+              {SHORTCUTS.filter((s) => canEdit || !s.edits).map((shortcut) => (
+                <span key={shortcut.keys} className="text-xs text-gray-600">
+                  <kbd className="px-1.5 py-0.5 bg-gray-100 border border-gray-300 rounded font-mono">
+                    {shortcut.keys}
+                  </kbd>{" "}
+                  {shortcut.label}
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,318 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import AnnouncementNotes from "@/components/AnnouncementNotes";
+import { recordActivity } from "@/lib/activity";
+import {
+  describeError,
+  getAnnouncement,
+  getAnnouncementHistory,
+  isAbortError,
+  setAnnouncementFollowUp,
+} from "@/lib/api";
+import { CONTACT_FIELDS, contactOf } from "@/lib/contact";
+import { isFollowUpDue, splitProducts } from "@/lib/filters";
+import { formatDateTime } from "@/lib/format";
+import { can } from "@/lib/permissions";
+import type { Announcement, AnnouncementEvent } from "@/lib/types";
+import { useCurrentUser } from "@/lib/useCurrentUser";
+
+// Without a history endpoint the record still tells when it was first and
+// last scraped.
+const fallbackTimeline = (announcement: Announcement): AnnouncementEvent[] =>
+  [announcement.created_at, announcement.scraped_date]
+    .filter((at, index, all) => at && all.indexOf(at) === index)
+    .map((at) => ({ at, kind: "sighting", fields: [] }));
+
+const webHref = (site: string) =>
+  /^https?:\/\//i.test(site) ? site : `https://${site}`;
+
+export default function AnnouncementDetails({ id }: { id: number }) {
+  const [announcement, setAnnouncement] = useState<Announcement | null>(null);
+  const [timeline, setTimeline] = useState<AnnouncementEvent[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const { user } = useCurrentUser();
+  const canEdit = can(user.role, "announcement:edit");
+  const [followUp, setFollowUp] = useState("");
+  const [savingFollowUp, setSavingFollowUp] = useState(false);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const load = async () => {
+      try {
+        setError(null);
+        const [record, history] = await Promise.all([
+          getAnnouncement(id, { signal: controller.signal }),
+          getAnnouncementHistory(id, { signal: controller.signal }),
+        ]);
+        setAnnouncement(record);
+        setFollowUp(record.follow_up_date ?? "");
+        setTimeline(history ?? fallbackTimeline(record));
+      } catch (error) {
+        if (isAbortError(error)) return;
+        console.error("Error fetching announcement:", error);
+        setError(`Could not load announcement: ${describeError(error)}`);
+      }
+    };
+    load();
+    return () => controller.abort();
+  }, [id]);
+
+  const saveFollowUp = async (date: string) => {
+    if (!announcement) return;
+    try {
+      setSavingFollowUp(true);
+      await setAnnouncementFollowUp(announcement.id, date || null);
+      const summary = date ? `Follow-up set for ${date}` : "Follow-up cleared";
+      recordActivity(announcement.id, summary, ["follow_up_date"]);
+      setAnnouncement({ ...announcement, follow_up_date: date || undefined });
+      setFollowUp(date);
+      setTimeline((current) => [
+        ...current,
+        {
+          at: new Date().toISOString(),
+          kind: "edit",
+          fields: ["follow_up_date"],
+          summary,
+          user: user.name || undefined,
+        },
+      ]);
+    } catch (error) {
+      console.error("Error saving follow-up:", error);
+      setError(`Could not save follow-up: ${describeError(error)}`);
+    } finally {
+      setSavingFollowUp(false);
+    }
+  };
+
+  if (error) {
+    return (
+      <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+        ⚠️ {error}
+      </div>
+    );
+  }
+  if (!announcement) {
+    return <div className="p-8 text-center text-gray-500">Loading...</div>;
+  }
+
+  const products = splitProducts(announcement.products);
+  const fields: [string, string][] = [
+    ["ID", String(announcement.id)],
+    ["Member ID", announcement.member_id],
+    ["Type", announcement.announcement_type],
+    ["Location", announcement.location],
+    ["Announcement Date", announcement.announcement_date],
+    ["Scraped", formatDateTime(announcement.scraped_date)],
+    ["Created", formatDateTime(announcement.created_at)],
+    ["Checked", announcement.checked ? "Yes" : "No"],
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-800">
+          {announcement.announcement_title}
+        </h2>
+        <div className="text-gray-700 font-medium mt-1">
+          {announcement.company_name}
+        </div>
+        <a
+          href={announcement.announcement_url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-sm text-blue-600 hover:text-blue-800"
+        >
+          🔗 View on EspaceAgro
+        </a>
+      </div>
+
+      <dl className="grid grid-cols-2 gap-x-4 gap-y-2 text-sm">
+        {fields.map(([label, value]) => (
+          <div key={label}>
+            <dt className="text-xs font-medium text-gray-500 uppercase">
+              {label}
+            </dt>
+            <dd className="text-gray-900">{value || "—"}</dd>
+          </div>
+        ))}
+      </dl>
+
+      <section>
+        <h3 className="text-sm font-semibold text-gray-700 uppercase mb-2">
+          Description
+        </h3>
+        <p className="text-sm text-gray-800 whitespace-pre-line">
+          {announcement.description || "No description."}
+        </p>
+      </section>
+
+      <section>
+        <h3 className="text-sm font-semibold text-gray-700 uppercase mb-2">
+          Products
+        </h3>
+        {products.length === 0 ? (
+          <div className="text-sm text-gray-500">None listed.</div>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {products.map((product) => (
+              <span
+                key={product}
+                className="px-2 py-1 text-xs rounded-full bg-green-100 text-green-800"
+              >
+                {product}
+              </span>
+            ))}
+          </div>
+        )}
+      </section>
+
+      <section>
+        <h3 className="text-sm font-semibold text-gray-700 uppercase mb-2">
+          Contact
+        </h3>
+        <div className="text-sm text-gray-700 space-y-1">
+          {announcement.prenom && (
+            <div>
+              <strong>Prénom:</strong> {announcement.prenom}
+            </div>
+          )}
+          {(announcement.adresse ||
+            announcement.cod_postal ||
+            announcement.ville) && (
+            <div>
+              <strong>Adresse:</strong>{" "}
+              {[
+                announcement.adresse,
+                [announcement.cod_postal, announcement.ville]
+                  .filter(Boolean)
+                  .join(" "),
+              ]
+                .filter(Boolean)
+                .join(", ")}
+            </div>
+          )}
+          {announcement.tel && (
+            <div>
+              <strong>Tel:</strong>{" "}
+              <a
+                href={`tel:${announcement.tel.replace(/[^\d+]/g, "")}`}
+                className="text-blue-600 hover:text-blue-800"
+              >
+                📞 {announcement.tel}
+              </a>
+            </div>
+          )}
+          {announcement.mail && (
+            <div>
+              <strong>Mail:</strong>{" "}
+              <a
+                href={`mailto:${announcement.mail}`}
+                className="text-blue-600 hover:text-blue-800"
+              >
+                ✉️ {announcement.mail}
+              </a>
+            </div>
+          )}
+          {announcement.web_site && (
+            <div>
+              <strong>Web:</strong>{" "}
+              <a
+                href={webHref(announcement.web_site)}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-blue-600 hover:text-blue-800"
+              >
+                {announcement.web_site}
+              </a>
+            </div>
+          )}
+          {announcement.ok && (
+            <div>
+              <strong>OK:</strong> {announcement.ok}
+            </div>
+          )}
+          {!CONTACT_FIELDS.some((f) => contactOf(announcement)[f.key]) && (
+            <div className="text-gray-500">No contact details yet.</div>
+          )}
+        </div>
+      </section>
+
+      <section>
+        <h3 className="text-sm font-semibold text-gray-700 uppercase mb-2">
+          Follow-up
+        </h3>
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="date"
+            value={followUp}
+            onChange={(e) => setFollowUp(e.target.value)}
+            disabled={!canEdit}
+            className="px-3 py-1 text-sm border border-gray-300 rounded bg-white text-gray-900"
+          />
+          <button
+            onClick={() => saveFollowUp(followUp)}
+            disabled={
+              !canEdit ||
+              savingFollowUp ||
+              followUp === (announcement.follow_up_date ?? "")
+            }
+            className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-400"
+          >
+            {savingFollowUp ? "Saving..." : "Save"}
+          </button>
+          {canEdit && announcement.follow_up_date && (
+            <button
+              onClick={() => saveFollowUp("")}
+              disabled={savingFollowUp}
+              className="px-3 py-1 text-sm text-gray-600 hover:text-gray-900"
+            >
+              ✕ Clear
+            </button>
+          )}
+          {isFollowUpDue(announcement) && (
+            <span className="px-2 py-0.5 text-xs rounded-full bg-red-100 text-red-800">
+              Due
+            </span>
+          )}
+        </div>
+      </section>
+
+      <section>
+        <h3 className="text-sm font-semibold text-gray-700 uppercase mb-2">
+          Notes
+        </h3>
+        <AnnouncementNotes announcementId={announcement.id} />
+      </section>
+
+      <section>
+        <h3 className="text-sm font-semibold text-gray-700 uppercase mb-2">
+          Activity
+        </h3>
+        <ol className="border-l-2 border-gray-200 ml-2 space-y-3">
+          {timeline.map((event, index) => (
+            <li key={index} className="ml-4 text-sm">
+              <div className="text-xs text-gray-500">
+                {formatDateTime(event.at)}
+              </div>
+              {event.kind === "sighting" ? (
+                <div className="text-gray-800">
+                  🕘 Seen by scrape
+                  {event.run_id !== undefined && ` run #${event.run_id}`}
+                  {event.fields.length > 0 &&
+                    ` (changed: ${event.fields.join(", ")})`}
+                </div>
+              ) : (
+                <div className="text-gray-800">
+                  ✏️ {event.summary ?? "Edited"}
+                  {event.fields.length > 0 && ` (${event.fields.join(", ")})`}
+                  {event.user && ` by ${event.user}`}
+                </div>
+              )}
+            </li>
+          ))}
+        </ol>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+"use client";
+
+import { useEffect } from "react";
+import AnnouncementDetails from "@/components/AnnouncementDetails";
+
+interface AnnouncementDrawerProps {
+  id: number;
+  onClose: () => void;
+}
+
+export default function AnnouncementDrawer({
+  id,
+  onClose,
+}: AnnouncementDrawerProps) {
+  useEffect(() => {
+    const closeOnEscape = (event: KeyboardEvent) => {
+      if (event.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", closeOnEscape);
+    return () => window.removeEventListener("keydown", closeOnEscape);
+  }, [onClose]);
+
+  return (
+    <div className="fixed inset-0 z-40 flex justify-end">
+      <div className="absolute inset-0 bg-black/30" onClick={onClose} />
+      <aside className="relative w-full max-w-xl h-full bg-white shadow-xl overflow-y-auto p-6">
+        <div className="flex justify-end mb-2">
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-800 text-sm font-medium"
+          >
+            ✕ Close
+          </button>
+        </div>
+        <AnnouncementDetails id={id} />
+      </aside>
+    </div>
+  );
+}
@@ -0,0 +1,226 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { WILAYAS } from "@/lib/gazetteer";
+import type { Place } from "@/lib/gazetteer";
+import {
+  clusterPoints,
+  FULL_VIEW,
+  MAP_HEIGHT,
+  MAP_WIDTH,
+  MAX_ZOOM,
+  project,
+  viewBox,
+  zoomTo,
+} from "@/lib/mapView";
+import type { Cluster, MapView } from "@/lib/mapView";
+import type { Announcement } from "@/lib/types";
+
+export interface PlacedAnnouncement {
+  announcement: Announcement;
+  place: Place;
+}
+
+interface AnnouncementMapProps {
+  placed: PlacedAnnouncement[];
+  onOpen: (id: number) => void;
+  // Several announcements at one place, which zooming can't separate
+  onShowGroup: (items: PlacedAnnouncement[]) => void;
+}
+
+// Sizes in map units at zoom 1; divided by the zoom so they stay the same
+// on screen
+const CLUSTER_CELL = 40;
+const MARKER_RADIUS = 6;
+const LABEL_SIZE = 9;
+// Wilaya names crowd the north at full view
+const LABEL_MIN_ZOOM = 2;
+// Pointer travel, in pixels, past which a press is a drag rather than a click
+const DRAG_THRESHOLD = 4;
+
+const samePlace = (items: PlacedAnnouncement[]) =>
+  items.every(
+    (i) =>
+      i.place.lat === items[0].place.lat && i.place.lon === items[0].place.lon
+  );
+
+export default function AnnouncementMap({
+  placed,
+  onOpen,
+  onShowGroup,
+}: AnnouncementMapProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<{
+    clientX: number;
+    clientY: number;
+    view: MapView;
+    moved: boolean;
+  } | null>(null);
+  const [view, setView] = useState<MapView>(FULL_VIEW);
+
+  const scale = 1 / view.zoom;
+  const clusters = clusterPoints(
+    placed.map((item) => ({
+      ...project(item.place.lat, item.place.lon),
+      item,
+    })),
+    CLUSTER_CELL * scale
+  );
+
+  const openCluster = (cluster: Cluster<PlacedAnnouncement>) => {
+    if (dragRef.current?.moved) return;
+    if (cluster.items.length === 1) {
+      onOpen(cluster.items[0].announcement.id);
+    } else if (samePlace(cluster.items) || view.zoom >= MAX_ZOOM) {
+      onShowGroup(cluster.items);
+    } else {
+      setView(zoomTo({ ...view, x: cluster.x, y: cluster.y }, view.zoom * 2));
+    }
+  };
+
+  const startDrag = (e: React.PointerEvent) => {
+    dragRef.current = {
+      clientX: e.clientX,
+      clientY: e.clientY,
+      view,
+      moved: false,
+    };
+  };
+
+  const drag = (e: React.PointerEvent) => {
+    const start = dragRef.current;
+    const svg = svgRef.current;
+    if (!start || !svg || e.buttons === 0) return;
+    const dx = e.clientX - start.clientX;
+    const dy = e.clientY - start.clientY;
+    if (!start.moved && Math.hypot(dx, dy) < DRAG_THRESHOLD) return;
+    start.moved = true;
+    const unitsPerPixel = MAP_WIDTH / start.view.zoom / svg.clientWidth;
+    setView({
+      ...start.view,
+      x: start.view.x - dx * unitsPerPixel,
+      y: start.view.y - dy * unitsPerPixel,
+    });
+  };
+
+  return (
+    <div className="relative">
+      <svg
+        ref={svgRef}
+        viewBox={viewBox(view)}
+        onPointerDown={startDrag}
+        onPointerMove={drag}
+        // Cleared after the click handlers have seen whether this was a drag
+        onPointerUp={() =>
+          setTimeout(() => {
+            dragRef.current = null;
+          })
+        }
+        className="w-full bg-blue-50 rounded-lg cursor-grab select-none touch-none"
+        style={{ aspectRatio: `${MAP_WIDTH} / ${MAP_HEIGHT}` }}
+      >
+        <rect
+          x={0}
+          y={0}
+          width={MAP_WIDTH}
+          height={MAP_HEIGHT}
+          className="fill-amber-50"
+        />
+        {WILAYAS.map((wilaya) => {
+          const point = project(wilaya.lat, wilaya.lon);
+          return (
+            <g key={wilaya.code} className="pointer-events-none">
+              <circle
+                cx={point.x}
+                cy={point.y}
+                r={2 * scale}
+                className="fill-gray-400"
+              />
+              {view.zoom >= LABEL_MIN_ZOOM && (
+                <text
+                  x={point.x + 3 * scale}
+                  y={point.y - 3 * scale}
+                  fontSize={LABEL_SIZE * scale}
+                  className="fill-gray-500"
+                >
+                  {wilaya.name}
+                </text>
+              )}
+            </g>
+          );
+        })}
+        {clusters.map((cluster) => {
+          const count = cluster.items.length;
+          const radius =
+            (count === 1
+              ? MARKER_RADIUS
+              : MARKER_RADIUS + 3 * Math.log10(count) + 3) * scale;
+          const first = cluster.items[0];
+          return (
+            <g
+              key={`${cluster.x}:${cluster.y}`}
+              onClick={() => openCluster(cluster)}
+              className="cursor-pointer"
+            >
+              <title>
+                {count === 1
+                  ? `${first.announcement.announcement_title} (${first.place.name})`
+                  : `${count} announcements`}
+              </title>
+              <circle
+                cx={cluster.x}
+                cy={cluster.y}
+                r={radius}
+                strokeWidth={1.5 * scale}
+                className={
+                  count === 1
+                    ? first.announcement.checked
+                      ? "fill-green-500 stroke-white hover:fill-green-700"
+                      : "fill-blue-500 stroke-white hover:fill-blue-700"
+                    : "fill-indigo-600/80 stroke-white hover:fill-indigo-800"
+                }
+              />
+              {count > 1 && (
+                <text
+                  x={cluster.x}
+                  y={cluster.y}
+                  fontSize={LABEL_SIZE * scale}
+                  textAnchor="middle"
+                  dominantBaseline="central"
+                  className="fill-white font-semibold pointer-events-none"
+                >
+                  {count}
+                </text>
+              )}
+            </g>
+          );
+        })}
+      </svg>
+      <div className="absolute top-2 right-2 flex flex-col gap-1">
+        <button
+          onClick={() => setView(zoomTo(view, view.zoom * 2))}
+          disabled={view.zoom >= MAX_ZOOM}
+          className="w-8 h-8 bg-white rounded shadow text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+          title="Zoom in"
+        >
+          +
+        </button>
+        <button
+          onClick={() => setView(zoomTo(view, view.zoom / 2))}
+          disabled={view.zoom <= 1}
+          className="w-8 h-8 bg-white rounded shadow text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+          title="Zoom out"
+        >
+          −
+        </button>
+        <button
+          onClick={() => setView(FULL_VIEW)}
+          className="w-8 h-8 bg-white rounded shadow text-gray-700 hover:bg-gray-100"
+          title="Show all of Algeria"
+        >
+          ⤢
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  addAnnouncementNote,
+  ApiError,
+  describeError,
+  getAnnouncementNotes,
+  isAbortError,
+} from "@/lib/api";
+import { formatDateTime } from "@/lib/format";
+import type { AnnouncementNote } from "@/lib/types";
+
+export default function AnnouncementNotes({
+  announcementId,
+}: {
+  announcementId: number;
+}) {
+  const [notes, setNotes] = useState<AnnouncementNote[]>([]);
+  const [unsupported, setUnsupported] = useState(false);
+  const [draft, setDraft] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    getAnnouncementNotes(announcementId, { signal: controller.signal })
+      .then(setNotes)
+      .catch((error) => {
+        if (isAbortError(error)) return;
+        if (error instanceof ApiError && error.status === 404) {
+          setUnsupported(true);
+          return;
+        }
+        console.error("Error fetching notes:", error);
+        setError(`Could not load notes: ${describeError(error)}`);
+      });
+    return () => controller.abort();
+  }, [announcementId]);
+
+  const addNote = async () => {
+    const text = draft.trim();
+    if (!text) return;
+    try {
+      setSaving(true);
+      setError(null);
+      const note = await addAnnouncementNote(announcementId, text);
+      setNotes((current) => [note, ...current]);
+      setDraft("");
+    } catch (error) {
+      console.error("Error adding note:", error);
+      setError(`Could not add note: ${describeError(error)}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (unsupported) {
+    return (
+      <div className="text-sm text-gray-500">
+        Notes aren&apos;t available on this backend.
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        placeholder="What happened? e.g. called, asked for a price list"
+        rows={3}
+        className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900"
+      />
+      <button
+        onClick={addNote}
+        disabled={saving || !draft.trim()}
+        className="mt-1 px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-400"
+      >
+        {saving ? "Saving..." : "➕ Add Note"}
+      </button>
+      {error && <div className="text-sm text-red-700 mt-2">⚠️ {error}</div>}
+      <ul className="mt-3 space-y-2">
+        {notes.map((note) => (
+          <li key={note.id} className="bg-yellow-50 rounded p-2 text-sm">
+            <div className="text-xs text-gray-500">
+              {formatDateTime(note.created_at)}
+              {note.author && ` · ${note.author}`}
+            </div>
+            <div className="text-gray-800 whitespace-pre-line">{note.text}</div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
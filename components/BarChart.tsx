@@ -0,0 +1,62 @@
+"use client";
+
+import Link from "next/link";
+import type { CountEntry } from "@/lib/analytics";
+
+interface BarChartProps {
+  title: string;
+  entries: CountEntry[];
+  limit: number;
+  // Dashboard link showing the announcements behind a bar
+  hrefFor: (entry: CountEntry) => string;
+}
+
+// Horizontal bars, one per value, longest first
+export default function BarChart({
+  title,
+  entries,
+  limit,
+  hrefFor,
+}: BarChartProps) {
+  const shown = entries.slice(0, limit);
+  const max = shown[0]?.count ?? 0;
+
+  return (
+    <div className="bg-white rounded-lg shadow p-4">
+      <h2 className="text-lg font-semibold text-gray-800 mb-3">{title}</h2>
+      {shown.length === 0 ? (
+        <div className="text-sm text-gray-500">No data.</div>
+      ) : (
+        <ul className="space-y-1">
+          {shown.map((entry) => (
+            <li key={entry.key ?? entry.label}>
+              <Link
+                href={hrefFor(entry)}
+                className="group flex items-center gap-2 text-sm"
+                title={`Show the ${entry.count} announcements in the table`}
+              >
+                <span className="w-36 truncate text-gray-700 group-hover:text-blue-700">
+                  {entry.label}
+                </span>
+                <span className="flex-1 bg-gray-100 rounded h-4">
+                  <span
+                    className="block bg-blue-500 group-hover:bg-blue-600 rounded h-4"
+                    style={{ width: `${(entry.count / max) * 100}%` }}
+                  />
+                </span>
+                <span className="w-10 text-right text-gray-600">
+                  {entry.count}
+                </span>
+              </Link>
+            </li>
+          ))}
+        </ul>
+      )}
+      {entries.length > limit && (
+        <div className="text-xs text-gray-500 mt-2">
+          +{entries.length - limit} more
+        </div>
+      )}
+    </div>
+  );
+}
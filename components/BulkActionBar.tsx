@@ -0,0 +1,155 @@
+"use client";
+
+import type { BulkProgress } from "@/lib/bulk";
+
+interface BulkActionBarProps {
+  selectedCount: number;
+  matchingCount: number;
+  selectingAll: boolean;
+  progress: BulkProgress | null;
+  canEdit: boolean;
+  canExport: boolean;
+  canDelete: boolean;
+  // Deleting can't be queued, so it waits for the backend
+  offline: boolean;
+  onSelectAllFiltered: () => void;
+  onClearSelection: () => void;
+  onMarkChecked: (checked: number) => void;
+  onSetOk: () => void;
+  onExport: () => void;
+  onDelete: () => void;
+  onDismissProgress: () => void;
+}
+
+export default function BulkActionBar({
+  selectedCount,
+  matchingCount,
+  selectingAll,
+  progress,
+  canEdit,
+  canExport,
+  canDelete,
+  offline,
+  onSelectAllFiltered,
+  onClearSelection,
+  onMarkChecked,
+  onSetOk,
+  onExport,
+  onDelete,
+  onDismissProgress,
+}: BulkActionBarProps) {
+  const running = progress !== null && progress.done < progress.total;
+
+  return (
+    <div className="bg-blue-50 border border-blue-200 rounded-lg px-4 py-3 mb-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-sm font-medium text-blue-900">
+          {selectedCount} selected
+        </span>
+        {selectedCount < matchingCount && (
+          <button
+            onClick={onSelectAllFiltered}
+            disabled={selectingAll || running}
+            className="text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
+          >
+            {selectingAll
+              ? "Selecting..."
+              : `Select all ${matchingCount} filtered`}
+          </button>
+        )}
+        <button
+          onClick={onClearSelection}
+          disabled={running}
+          className="text-sm text-gray-600 hover:text-gray-800 disabled:opacity-50"
+        >
+          ✕ Clear selection
+        </button>
+        <div className="flex flex-wrap gap-2 ml-auto">
+          {canEdit && (
+            <>
+              <button
+                onClick={() => onMarkChecked(1)}
+                disabled={running}
+                className="bg-green-600 text-white px-3 py-1 rounded-lg text-sm hover:bg-green-700 disabled:bg-gray-400"
+              >
+                ✓ Mark checked
+              </button>
+              <button
+                onClick={() => onMarkChecked(0)}
+                disabled={running}
+                className="bg-gray-600 text-white px-3 py-1 rounded-lg text-sm hover:bg-gray-700 disabled:bg-gray-400"
+              >
+                ○ Mark unchecked
+              </button>
+              <button
+                onClick={onSetOk}
+                disabled={running}
+                className="bg-purple-600 text-white px-3 py-1 rounded-lg text-sm hover:bg-purple-700 disabled:bg-gray-400"
+              >
+                ✏️ Set OK
+              </button>
+            </>
+          )}
+          {canExport && (
+            <button
+              onClick={onExport}
+              disabled={running}
+              className="bg-indigo-600 text-white px-3 py-1 rounded-lg text-sm hover:bg-indigo-700 disabled:bg-gray-400"
+            >
+              📊 Export
+            </button>
+          )}
+          {canDelete && (
+            <button
+              onClick={onDelete}
+              disabled={running || offline}
+              title={
+                offline
+                  ? "The backend can't be reached; deleting needs it"
+                  : undefined
+              }
+              className="bg-red-600 text-white px-3 py-1 rounded-lg text-sm hover:bg-red-700 disabled:bg-gray-400"
+            >
+              {offline ? "🗑️ Delete (offline)" : "🗑️ Delete"}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {progress && (
+        <div className="mt-3">
+          <div className="flex justify-between items-center text-sm text-gray-700 mb-1">
+            <span>
+              {progress.label}: {progress.done} / {progress.total}
+              {progress.failed > 0 && (
+                <span className="text-red-700 ml-2">
+                  ⚠️ {progress.failed} failed
+                </span>
+              )}
+            </span>
+            {!running && (
+              <button
+                onClick={onDismissProgress}
+                className="text-gray-500 hover:text-gray-800 text-sm font-medium"
+              >
+                ✕ Dismiss
+              </button>
+            )}
+          </div>
+          <div className="w-full bg-gray-200 rounded-full h-2">
+            <div
+              className={`h-2 rounded-full ${
+                progress.failed > 0 ? "bg-yellow-500" : "bg-blue-600"
+              }`}
+              style={{
+                width: `${
+                  progress.total ? (progress.done / progress.total) * 100 : 0
+                }%`,
+              }}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+"use client";
+
+import ContactForm from "@/components/ContactForm";
+import type { BulkProgress } from "@/lib/bulk";
+import type { Company } from "@/lib/companies";
+import { COMPANY_CONTACT_FIELDS } from "@/lib/contact";
+
+interface CompanyCardProps {
+  company: Company;
+  expanded: boolean;
+  editing: boolean;
+  canEdit: boolean;
+  progress: BulkProgress | null;
+  onToggleHistory: () => void;
+  onEdit: () => void;
+  onSave: (contact: Company["contact"]) => void;
+  onCancel: () => void;
+}
+
+export default function CompanyCard({
+  company,
+  expanded,
+  editing,
+  canEdit,
+  progress,
+  onToggleHistory,
+  onEdit,
+  onSave,
+  onCancel,
+}: CompanyCardProps) {
+  const saving = progress !== null && progress.done < progress.total;
+  const filledFields = COMPANY_CONTACT_FIELDS.filter(
+    (f) => company.contact[f.key]
+  );
+
+  return (
+    <div className="bg-white rounded-lg shadow p-4">
+      <div className="flex justify-between items-start gap-4 mb-3">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800">
+            {company.company_name || "Unnamed company"}
+          </h2>
+          <div className="text-xs text-gray-500">
+            {company.member_id && <>Member {company.member_id} · </>}
+            {company.announcements.length} announcements
+          </div>
+        </div>
+        {canEdit && !editing && (
+          <button
+            onClick={onEdit}
+            className="text-sm text-blue-600 hover:text-blue-800 whitespace-nowrap"
+          >
+            {filledFields.length > 0 ? "✏️ Edit" : "➕ Add Contact"}
+          </button>
+        )}
+      </div>
+
+      {editing ? (
+        <>
+          <ContactForm
+            initial={company.contact}
+            fields={COMPANY_CONTACT_FIELDS}
+            saving={saving}
+            onSave={onSave}
+            onCancel={onCancel}
+          />
+          <div className="text-xs text-gray-500 mt-2">
+            Saving updates the changed fields on all{" "}
+            {company.announcements.length} announcements of this company.
+          </div>
+        </>
+      ) : filledFields.length === 0 ? (
+        <div className="text-sm text-gray-400">No contact details yet.</div>
+      ) : (
+        <div className="text-sm text-gray-600 space-y-0.5">
+          {filledFields.map((field) => (
+            <div key={field.key}>
+              <strong>{field.label}:</strong> {company.contact[field.key]}
+              {company.conflictingFields.includes(field.key) && (
+                <span
+                  className="ml-1 text-xs text-yellow-700"
+                  title="Announcements of this company have different values; the most recent is shown"
+                >
+                  ⚠️ differs
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {progress && (
+        <div className="text-xs text-gray-600 mt-2">
+          {saving ? "Updating" : "Updated"} {progress.done - progress.failed} /{" "}
+          {progress.total} announcements
+          {progress.failed > 0 && (
+            <span className="text-red-700 ml-1">
+              ⚠️ {progress.failed} failed
+            </span>
+          )}
+        </div>
+      )}
+
+      <button
+        onClick={onToggleHistory}
+        className="text-sm text-blue-600 hover:text-blue-800 mt-3"
+      >
+        {expanded ? "🔽 Hide announcements" : "▶️ Show announcements"}
+      </button>
+      {expanded && (
+        <ul className="mt-2 divide-y border rounded-lg">
+          {company.announcements.map((announcement) => (
+            <li key={announcement.id} className="px-3 py-2 text-sm">
+              <div className="flex justify-between gap-2">
+                <a
+                  href={announcement.announcement_url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="font-medium text-gray-900 hover:text-blue-700"
+                >
+                  {announcement.announcement_title}
+                </a>
+                <span className="text-xs text-gray-500 whitespace-nowrap">
+                  {announcement.announcement_date}
+                </span>
+              </div>
+              <div className="flex flex-wrap gap-2 mt-1 text-xs">
+                <span className="px-2 py-0.5 rounded-full bg-blue-100 text-blue-800">
+                  {announcement.announcement_type}
+                </span>
+                {announcement.products && (
+                  <span className="text-gray-600">
+                    📦 {announcement.products}
+                  </span>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
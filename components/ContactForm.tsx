@@ -0,0 +1,163 @@
+"use client";
+
+import { useState } from "react";
+import { CONTACT_FIELDS } from "@/lib/contact";
+import type { ContactField } from "@/lib/contact";
+import type { ContactSuggestion } from "@/lib/contactExtraction";
+import { checkContact, checkContactField } from "@/lib/contactFormat";
+import type { ContactErrors } from "@/lib/contactFormat";
+import type { ContactInfo } from "@/lib/types";
+import { useRejectedSuggestions } from "@/lib/useRejectedSuggestions";
+
+interface ContactFormProps {
+  initial: ContactInfo;
+  saving: boolean;
+  // Called with the normalized contact once every field is valid
+  onSave: (contact: ContactInfo) => void;
+  onCancel: () => void;
+  // Values found in the announcement's text for its empty fields
+  suggestions?: ContactSuggestion[];
+  // The fields to edit; the others keep their initial value
+  fields?: typeof CONTACT_FIELDS;
+}
+
+const INPUT_TYPES: Partial<Record<ContactField, string>> = {
+  mail: "email",
+  tel: "tel",
+  web_site: "url",
+};
+
+const PLACEHOLDERS: Partial<Record<ContactField, string>> = {
+  tel: "Téléphone, e.g. 0555 12 34 56",
+  cod_postal: "Code Postal, e.g. 16000",
+};
+
+export default function ContactForm({
+  initial,
+  saving,
+  onSave,
+  onCancel,
+  suggestions = [],
+  fields = CONTACT_FIELDS,
+}: ContactFormProps) {
+  const [contact, setContact] = useState(initial);
+  const [errors, setErrors] = useState<ContactErrors>({});
+  const { reject, withoutRejected } = useRejectedSuggestions();
+  // Only while the field is still empty
+  const open = withoutRejected(suggestions).filter(
+    (s) => contact[s.field] === ""
+  );
+
+  const accept = (accepted: ContactSuggestion[]) => {
+    const next = { ...contact };
+    for (const suggestion of accepted)
+      next[suggestion.field] = suggestion.value;
+    setContact(next);
+  };
+
+  // Normalizes a field when leaving it, so the canonical format shows before
+  // saving. The postal code is checked again when the ville changes.
+  const checkField = (field: ContactField) => {
+    const fields: ContactField[] =
+      field === "ville" && contact.cod_postal ? [field, "cod_postal"] : [field];
+    const next = { ...contact };
+    const nextErrors = { ...errors };
+    for (const key of fields) {
+      const check = checkContactField(key, next);
+      next[key] = check.value;
+      nextErrors[key] = check.error;
+    }
+    setContact(next);
+    setErrors(nextErrors);
+  };
+
+  const save = () => {
+    const checked = checkContact(contact);
+    setContact(checked.contact);
+    setErrors(checked.errors);
+    if (Object.keys(checked.errors).length === 0) onSave(checked.contact);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-2">
+        {fields.map((field) => (
+          <div key={field.key}>
+            <input
+              type={INPUT_TYPES[field.key] ?? "text"}
+              placeholder={PLACEHOLDERS[field.key] ?? field.label}
+              value={contact[field.key]}
+              onChange={(e) =>
+                setContact({ ...contact, [field.key]: e.target.value })
+              }
+              onBlur={() => checkField(field.key)}
+              className={`w-full px-2 py-1 text-sm border rounded bg-white text-gray-900 ${
+                errors[field.key] ? "border-red-500" : "border-gray-300"
+              }`}
+            />
+            {errors[field.key] && (
+              <div className="text-xs text-red-600 mt-0.5">
+                {errors[field.key]}
+              </div>
+            )}
+            {open
+              .filter((s) => s.field === field.key)
+              .map((suggestion) => (
+                <div
+                  key={suggestion.value}
+                  className="flex items-center gap-1 text-xs text-amber-800 mt-0.5"
+                  title={`Found in the ${suggestion.source}`}
+                >
+                  <span className="truncate">💡 {suggestion.value}</span>
+                  <button
+                    onClick={() => accept([suggestion])}
+                    className="text-green-700 hover:text-green-900 font-medium"
+                  >
+                    ✓
+                  </button>
+                  <button
+                    onClick={() => reject([suggestion])}
+                    className="text-gray-500 hover:text-gray-800"
+                  >
+                    ✗
+                  </button>
+                </div>
+              ))}
+          </div>
+        ))}
+      </div>
+      {open.length > 1 && (
+        <div className="flex gap-2 text-xs">
+          <button
+            onClick={() => accept(open)}
+            className="text-green-700 hover:text-green-900 font-medium"
+          >
+            ✓ Use all {open.length} suggestions
+          </button>
+          <button
+            onClick={() => reject(open)}
+            className="text-gray-500 hover:text-gray-800"
+          >
+            ✗ Reject all
+          </button>
+        </div>
+      )}
+      <div className="flex gap-1">
+        <button
+          onClick={save}
+          disabled={saving}
+          className="px-3 py-1 text-sm bg-green-600 text-white rounded hover:bg-green-700 disabled:bg-gray-400"
+        >
+          {saving ? "Saving..." : "✓ Save"}
+        </button>
+        <button
+          onClick={onCancel}
+          disabled={saving}
+          className="px-3 py-1 text-sm bg-gray-600 text-white rounded hover:bg-gray-700 disabled:bg-gray-400"
+        >
+          ✗ Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,275 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { recordActivity } from "@/lib/activity";
+import { describeError, updateAnnouncementContact } from "@/lib/api";
+import { runInSequence } from "@/lib/bulk";
+import { CONTACT_FIELDS, changedContactFields, contactOf } from "@/lib/contact";
+import {
+  extractContactSuggestions,
+  suggestionKey,
+} from "@/lib/contactExtraction";
+import type { ContactSuggestion } from "@/lib/contactExtraction";
+import type { Announcement, ContactInfo } from "@/lib/types";
+import { useRejectedSuggestions } from "@/lib/useRejectedSuggestions";
+
+interface ContactSuggestionsDialogProps {
+  // Every announcement, not only the visible page
+  loadAnnouncements: () => Promise<Announcement[]>;
+  onApplied: (updates: Map<number, ContactInfo>) => void;
+  onClose: () => void;
+}
+
+type Decision = "accept" | "reject";
+
+const fieldLabel = (key: string) =>
+  CONTACT_FIELDS.find((f) => f.key === key)?.label ?? key;
+
+export default function ContactSuggestionsDialog({
+  loadAnnouncements,
+  onApplied,
+  onClose,
+}: ContactSuggestionsDialogProps) {
+  const { reject, withoutRejected } = useRejectedSuggestions();
+  const [groups, setGroups] = useState<
+    { announcement: Announcement; suggestions: ContactSuggestion[] }[] | null
+  >(null);
+  const [decisions, setDecisions] = useState<Map<string, Decision>>(new Map());
+  const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<{
+    done: number;
+    total: number;
+    failed: number;
+  } | null>(null);
+
+  useEffect(() => {
+    loadAnnouncements()
+      .then((announcements) =>
+        setGroups(
+          announcements
+            .map((announcement) => ({
+              announcement,
+              suggestions: withoutRejected(
+                extractContactSuggestions(announcement)
+              ),
+            }))
+            .filter((g) => g.suggestions.length > 0)
+        )
+      )
+      .catch((error) => {
+        console.error("Error preparing contact suggestions:", error);
+        setError(`Could not load announcements: ${describeError(error)}`);
+      });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const allSuggestions = (groups ?? []).flatMap((g) => g.suggestions);
+
+  const decide = (suggestions: ContactSuggestion[], decision: Decision) => {
+    const next = new Map(decisions);
+    for (const suggestion of suggestions) {
+      const key = suggestionKey(suggestion);
+      // Clicking the current choice again undoes it
+      if (suggestions.length === 1 && next.get(key) === decision) {
+        next.delete(key);
+      } else {
+        next.set(key, decision);
+      }
+    }
+    setDecisions(next);
+  };
+
+  const decided = (decision: Decision) =>
+    allSuggestions.filter((s) => decisions.get(suggestionKey(s)) === decision);
+
+  const apply = async () => {
+    reject(decided("reject"));
+    const updates = (groups ?? []).flatMap(({ announcement, suggestions }) => {
+      const accepted = suggestions.filter(
+        (s) => decisions.get(suggestionKey(s)) === "accept"
+      );
+      if (accepted.length === 0) return [];
+      const contact = contactOf(announcement);
+      for (const suggestion of accepted) {
+        contact[suggestion.field] = suggestion.value;
+      }
+      return [{ announcement, contact }];
+    });
+    const total = updates.length;
+    setProgress({ done: 0, total, failed: 0 });
+    const succeeded = await runInSequence(
+      updates,
+      async ({ announcement, contact }) => {
+        await updateAnnouncementContact(announcement.id, contact);
+        recordActivity(
+          announcement.id,
+          "Filled contact from announcement text",
+          changedContactFields(contactOf(announcement), contact)
+        );
+      },
+      (done, failed) => setProgress({ done, total, failed })
+    );
+    if (succeeded.length > 0) {
+      onApplied(new Map(succeeded.map((u) => [u.announcement.id, u.contact])));
+    }
+  };
+
+  const running = progress !== null && progress.done < progress.total;
+  const acceptedCount = decided("accept").length;
+  const rejectedCount = decided("reject").length;
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] overflow-y-auto p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold text-gray-800">
+            Contact Suggestions
+          </h2>
+          {!running && (
+            <button
+              onClick={onClose}
+              className="text-gray-500 hover:text-gray-800 text-sm font-medium"
+            >
+              ✕ Close
+            </button>
+          )}
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mb-4 text-sm">
+            ⚠️ {error}
+          </div>
+        )}
+
+        {!groups && !error && (
+          <div className="text-sm text-gray-500">Scanning announcements…</div>
+        )}
+
+        {groups && !progress && (
+          <div>
+            <p className="text-sm text-gray-600 mb-3">
+              Phones, emails, web sites and postal codes found in the title and
+              description of {groups.length} announcements whose fields are
+              empty. Rejected suggestions won&apos;t be offered again.
+            </p>
+            <div className="flex gap-2 mb-3">
+              <button
+                onClick={() => decide(allSuggestions, "accept")}
+                disabled={allSuggestions.length === 0}
+                className="px-3 py-1 text-sm bg-green-100 text-green-800 rounded hover:bg-green-200 disabled:opacity-50"
+              >
+                ✓ Accept all
+              </button>
+              <button
+                onClick={() => decide(allSuggestions, "reject")}
+                disabled={allSuggestions.length === 0}
+                className="px-3 py-1 text-sm bg-gray-100 text-gray-800 rounded hover:bg-gray-200 disabled:opacity-50"
+              >
+                ✗ Reject all
+              </button>
+              <button
+                onClick={() => setDecisions(new Map())}
+                disabled={decisions.size === 0}
+                className="px-3 py-1 text-sm text-gray-600 hover:text-gray-900 disabled:opacity-50"
+              >
+                Clear choices
+              </button>
+            </div>
+            <div className="border rounded-lg divide-y max-h-96 overflow-y-auto mb-4">
+              {groups.map(({ announcement, suggestions }) => (
+                <div key={announcement.id} className="px-3 py-2 text-sm">
+                  <div className="font-medium text-gray-800">
+                    {announcement.company_name} —{" "}
+                    {announcement.announcement_title}
+                  </div>
+                  <ul className="ml-4 mt-1 space-y-1">
+                    {suggestions.map((suggestion) => {
+                      const decision = decisions.get(suggestionKey(suggestion));
+                      return (
+                        <li
+                          key={suggestion.field}
+                          className={`flex items-center gap-2 px-1 rounded ${
+                            decision === "accept"
+                              ? "bg-green-50"
+                              : decision === "reject"
+                              ? "opacity-40"
+                              : ""
+                          }`}
+                        >
+                          <span className="text-gray-700">
+                            <strong>{fieldLabel(suggestion.field)}:</strong>{" "}
+                            {suggestion.value}
+                            <span className="text-xs text-gray-500">
+                              {" "}
+                              (from the {suggestion.source})
+                            </span>
+                          </span>
+                          <button
+                            onClick={() => decide([suggestion], "accept")}
+                            className={`ml-auto px-2 text-xs rounded ${
+                              decision === "accept"
+                                ? "bg-green-600 text-white"
+                                : "text-green-700 hover:bg-green-100"
+                            }`}
+                          >
+                            ✓ Accept
+                          </button>
+                          <button
+                            onClick={() => decide([suggestion], "reject")}
+                            className={`px-2 text-xs rounded ${
+                              decision === "reject"
+                                ? "bg-gray-600 text-white"
+                                : "text-gray-600 hover:bg-gray-100"
+                            }`}
+                          >
+                            ✗ Reject
+                          </button>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </div>
+              ))}
+              {groups.length === 0 && (
+                <div className="px-3 py-4 text-sm text-gray-500 text-center">
+                  Nothing to suggest.
+                </div>
+              )}
+            </div>
+            <button
+              onClick={apply}
+              disabled={acceptedCount === 0 && rejectedCount === 0}
+              className="bg-green-600 text-white px-6 py-2 rounded-lg hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+            >
+              ✓ Save {acceptedCount} accepted, forget {rejectedCount} rejected
+            </button>
+          </div>
+        )}
+
+        {progress && (
+          <div>
+            <div className="text-sm text-gray-700 mb-2">
+              {running ? "Saving…" : "Finished"} {progress.done} /{" "}
+              {progress.total}
+              {progress.failed > 0 && (
+                <span className="text-red-700 ml-2">
+                  ⚠️ {progress.failed} failed
+                </span>
+              )}
+            </div>
+            <div className="w-full bg-gray-200 rounded-full h-2">
+              <div
+                className="bg-green-600 h-2 rounded-full"
+                style={{
+                  width: `${
+                    progress.total ? (progress.done / progress.total) * 100 : 0
+                  }%`,
+                }}
+              />
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
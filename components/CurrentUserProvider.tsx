@@ -0,0 +1,46 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { usePathname } from "next/navigation";
+import { getCurrentUser, isAbortError } from "@/lib/api";
+import { LOGIN_PATH } from "@/lib/session";
+import { CurrentUserContext } from "@/lib/useCurrentUser";
+import type { CurrentUserState } from "@/lib/useCurrentUser";
+
+const VIEWER: CurrentUserState = {
+  user: { name: "", role: "viewer" },
+  loaded: true,
+};
+
+// Asks the backend who is signed in once per page load, so every component
+// sees the same user. The login page has nobody to ask about yet.
+export default function CurrentUserProvider({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  const onLoginPage = usePathname() === LOGIN_PATH;
+  const [state, setState] = useState<CurrentUserState>({
+    ...VIEWER,
+    loaded: false,
+  });
+
+  useEffect(() => {
+    if (onLoginPage) return;
+    const controller = new AbortController();
+    getCurrentUser({ signal: controller.signal })
+      .then((user) => setState({ user, loaded: true }))
+      .catch((error) => {
+        if (isAbortError(error)) return;
+        console.error("Error fetching current user:", error);
+        setState(VIEWER);
+      });
+    return () => controller.abort();
+  }, [onLoginPage]);
+
+  return (
+    <CurrentUserContext.Provider value={state}>
+      {children}
+    </CurrentUserContext.Provider>
+  );
+}
@@ -0,0 +1,157 @@
+"use client";
+
+import { useState } from "react";
+import { CONTACT_FIELDS, contactOf } from "@/lib/contact";
+import { mergeClusterContact, suggestSurvivor } from "@/lib/duplicates";
+import type { DuplicateCluster } from "@/lib/duplicates";
+import type { Announcement } from "@/lib/types";
+
+interface DuplicateClusterCardProps {
+  cluster: DuplicateCluster;
+  merging: boolean;
+  canMerge: boolean;
+  onMerge: (survivor: Announcement, duplicates: Announcement[]) => void;
+}
+
+export default function DuplicateClusterCard({
+  cluster,
+  merging,
+  canMerge,
+  onMerge,
+}: DuplicateClusterCardProps) {
+  const [survivorId, setSurvivorId] = useState(
+    () => suggestSurvivor(cluster).id
+  );
+  // Records the user says aren't duplicates after all
+  const [kept, setKept] = useState<Set<number>>(new Set());
+
+  const survivor =
+    cluster.announcements.find((a) => a.id === survivorId) ??
+    cluster.announcements[0];
+  const duplicates = cluster.announcements.filter(
+    (a) => a.id !== survivor.id && !kept.has(a.id)
+  );
+  const merged = mergeClusterContact(survivor, duplicates);
+  const survivorContact = contactOf(survivor);
+
+  const toggleKept = (id: number) => {
+    const next = new Set(kept);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setKept(next);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-4">
+      <div className="flex justify-between items-center mb-3">
+        <h2 className="text-lg font-semibold text-gray-800">
+          {survivor.company_name || "Unnamed company"}
+        </h2>
+        <span className="text-xs text-gray-500">
+          {Math.round(cluster.score * 100)}% similar
+        </span>
+      </div>
+
+      <table className="w-full text-sm mb-3">
+        <thead className="bg-gray-100">
+          <tr>
+            {["Keep", "Title", "Products", "Location", "Date", "Duplicate"].map(
+              (label) => (
+                <th
+                  key={label}
+                  className="px-2 py-1 text-left text-xs font-medium text-gray-700 uppercase"
+                >
+                  {label}
+                </th>
+              )
+            )}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200">
+          {cluster.announcements.map((announcement) => (
+            <tr
+              key={announcement.id}
+              className={
+                announcement.id === survivor.id
+                  ? "bg-green-50"
+                  : kept.has(announcement.id)
+                  ? "opacity-50"
+                  : ""
+              }
+            >
+              <td className="px-2 py-1">
+                <input
+                  type="radio"
+                  name={`survivor-${cluster.key}`}
+                  checked={announcement.id === survivor.id}
+                  onChange={() => setSurvivorId(announcement.id)}
+                  className="w-4 h-4"
+                />
+              </td>
+              <td className="px-2 py-1">
+                <a
+                  href={announcement.announcement_url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-gray-900 hover:text-blue-700"
+                >
+                  {announcement.announcement_title}
+                </a>
+                <div className="text-xs text-gray-500">#{announcement.id}</div>
+              </td>
+              <td className="px-2 py-1 text-gray-600">
+                {announcement.products}
+              </td>
+              <td className="px-2 py-1 text-gray-600">
+                {announcement.location}
+              </td>
+              <td className="px-2 py-1 text-gray-600 whitespace-nowrap">
+                {announcement.announcement_date}
+              </td>
+              <td className="px-2 py-1">
+                {announcement.id !== survivor.id && (
+                  <input
+                    type="checkbox"
+                    checked={!kept.has(announcement.id)}
+                    onChange={() => toggleKept(announcement.id)}
+                    title="Uncheck if this is a different offer"
+                    className="w-4 h-4"
+                  />
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="text-xs text-gray-600 mb-3">
+        <span className="font-medium text-gray-700">Merged contact: </span>
+        {CONTACT_FIELDS.filter((f) => merged[f.key]).map((field, index) => (
+          <span key={field.key}>
+            {index > 0 && " · "}
+            <strong>{field.label}:</strong>{" "}
+            <span
+              className={
+                survivorContact[field.key] ? "" : "text-teal-700 font-medium"
+              }
+            >
+              {merged[field.key]}
+            </span>
+          </span>
+        ))}
+        {CONTACT_FIELDS.every((f) => !merged[f.key]) && "none"}
+      </div>
+
+      <button
+        onClick={() => onMerge(survivor, duplicates)}
+        disabled={merging || !canMerge || duplicates.length === 0}
+        title={canMerge ? undefined : "Merging needs an editor account"}
+        className="bg-blue-600 text-white px-4 py-2 rounded-lg text-sm hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+      >
+        {merging
+          ? "Merging..."
+          : `🔗 Merge ${duplicates.length} into #${survivor.id}`}
+      </button>
+    </div>
+  );
+}
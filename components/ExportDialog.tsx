@@ -0,0 +1,269 @@
+"use client";
+
+import { useState } from "react";
+import type { CsvDelimiter } from "@/lib/csv";
+import {
+  DEFAULT_EXPORT_COLUMN_KEYS,
+  EXPORT_COLUMNS,
+} from "@/lib/exportColumns";
+
+export type ExportScope = "filtered" | "selected" | "all";
+
+export type ExportFormat = "csv" | "xlsx" | "json" | "ndjson";
+
+export interface ExportOptions {
+  format: ExportFormat;
+  scope: ExportScope;
+  columns: string[];
+  delimiter: CsvDelimiter;
+  bom: boolean;
+}
+
+interface ExportDialogProps {
+  counts: Record<ExportScope, number>;
+  initialScope?: ExportScope;
+  exporting: boolean;
+  onExport: (options: ExportOptions) => void;
+  onClose: () => void;
+}
+
+const DELIMITERS: { value: CsvDelimiter; label: string }[] = [
+  { value: ",", label: "Comma (,)" },
+  { value: ";", label: "Semicolon (;) — French Excel" },
+  { value: "\t", label: "Tab" },
+];
+
+const FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: "csv", label: "CSV" },
+  { value: "xlsx", label: "Excel (.xlsx)" },
+  { value: "json", label: "JSON" },
+  { value: "ndjson", label: "NDJSON" },
+];
+
+const SCOPES: { value: ExportScope; label: string }[] = [
+  { value: "filtered", label: "Filtered rows" },
+  { value: "selected", label: "Selected rows" },
+  { value: "all", label: "All rows" },
+];
+
+export default function ExportDialog({
+  counts,
+  initialScope = "filtered",
+  exporting,
+  onExport,
+  onClose,
+}: ExportDialogProps) {
+  const [format, setFormat] = useState<ExportFormat>("csv");
+  const [scope, setScope] = useState<ExportScope>(initialScope);
+  const [delimiter, setDelimiter] = useState<CsvDelimiter>(",");
+  const [bom, setBom] = useState(true);
+  // Every column in display order; `enabled` decides what gets exported
+  const [columns, setColumns] = useState(() =>
+    DEFAULT_EXPORT_COLUMN_KEYS.map((key) => ({ key, enabled: true }))
+  );
+
+  const enabledColumns = columns.filter((c) => c.enabled).map((c) => c.key);
+  // JSON formats always carry full records
+  const tabular = format === "csv" || format === "xlsx";
+
+  const moveColumn = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= columns.length) return;
+    const next = [...columns];
+    [next[index], next[target]] = [next[target], next[index]];
+    setColumns(next);
+  };
+
+  const toggleColumn = (key: string) => {
+    setColumns(
+      columns.map((c) => (c.key === key ? { ...c, enabled: !c.enabled } : c))
+    );
+  };
+
+  const setAllColumns = (enabled: boolean) => {
+    setColumns(columns.map((c) => ({ ...c, enabled })));
+  };
+
+  const labelFor = (key: string) =>
+    EXPORT_COLUMNS.find((c) => c.key === key)?.label ?? key;
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold text-gray-800">Export</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-800 text-sm font-medium"
+          >
+            ✕ Close
+          </button>
+        </div>
+
+        {/* Format */}
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Format
+          </label>
+          <div className="flex flex-wrap gap-2">
+            {FORMATS.map((option) => (
+              <button
+                key={option.value}
+                onClick={() => setFormat(option.value)}
+                className={`px-3 py-1 rounded-full text-sm ${
+                  format === option.value
+                    ? "bg-indigo-100 text-indigo-800 border border-indigo-300"
+                    : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Rows */}
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Rows
+          </label>
+          <div className="flex flex-wrap gap-2">
+            {SCOPES.map((option) => (
+              <button
+                key={option.value}
+                onClick={() => setScope(option.value)}
+                disabled={counts[option.value] === 0}
+                className={`px-3 py-1 rounded-full text-sm disabled:opacity-40 disabled:cursor-not-allowed ${
+                  scope === option.value
+                    ? "bg-indigo-100 text-indigo-800 border border-indigo-300"
+                    : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                }`}
+              >
+                {option.label} ({counts[option.value]})
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* CSV Options */}
+        {format === "csv" && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Delimiter
+              </label>
+              <select
+                value={delimiter}
+                onChange={(e) => setDelimiter(e.target.value as CsvDelimiter)}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white text-gray-900"
+              >
+                {DELIMITERS.map((option) => (
+                  <option key={option.label} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-700 md:mt-8">
+              <input
+                type="checkbox"
+                checked={bom}
+                onChange={(e) => setBom(e.target.checked)}
+                className="w-4 h-4"
+              />
+              Add UTF-8 BOM (keeps accents intact in Excel)
+            </label>
+          </div>
+        )}
+
+        {/* Columns */}
+        {tabular ? (
+          <div className="mb-6">
+            <div className="flex justify-between items-center mb-2">
+              <label className="text-sm font-medium text-gray-700">
+                Columns ({enabledColumns.length} of {columns.length})
+              </label>
+              <div className="flex gap-3 text-sm">
+                <button
+                  onClick={() => setAllColumns(true)}
+                  className="text-blue-600 hover:text-blue-800"
+                >
+                  Select all
+                </button>
+                <button
+                  onClick={() => setAllColumns(false)}
+                  className="text-blue-600 hover:text-blue-800"
+                >
+                  Select none
+                </button>
+              </div>
+            </div>
+            <ul className="border rounded-lg divide-y max-h-64 overflow-y-auto">
+              {columns.map((column, index) => (
+                <li
+                  key={column.key}
+                  className="flex items-center gap-2 px-3 py-1 text-sm"
+                >
+                  <input
+                    type="checkbox"
+                    checked={column.enabled}
+                    onChange={() => toggleColumn(column.key)}
+                    className="w-4 h-4"
+                  />
+                  <span
+                    className={`flex-1 ${
+                      column.enabled ? "text-gray-800" : "text-gray-400"
+                    }`}
+                  >
+                    {labelFor(column.key)}
+                  </span>
+                  <button
+                    onClick={() => moveColumn(index, -1)}
+                    disabled={index === 0}
+                    className="px-2 text-gray-600 hover:text-gray-900 disabled:opacity-30"
+                    title="Move up"
+                  >
+                    ↑
+                  </button>
+                  <button
+                    onClick={() => moveColumn(index, 1)}
+                    disabled={index === columns.length - 1}
+                    className="px-2 text-gray-600 hover:text-gray-900 disabled:opacity-30"
+                    title="Move down"
+                  >
+                    ↓
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ) : (
+          <div className="text-sm text-gray-500 mb-6">
+            JSON exports include every field of each announcement, contact
+            details included.
+          </div>
+        )}
+
+        <button
+          onClick={() =>
+            onExport({
+              format,
+              scope,
+              columns: enabledColumns,
+              delimiter,
+              bom,
+            })
+          }
+          disabled={
+            exporting ||
+            (tabular && enabledColumns.length === 0) ||
+            counts[scope] === 0
+          }
+          className="bg-indigo-600 text-white px-6 py-2 rounded-lg hover:bg-indigo-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+        >
+          {exporting ? "📊 Exporting..." : `📊 Export ${counts[scope]} rows`}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,393 @@
+"use client";
+
+import { useState } from "react";
+import { describeError } from "@/lib/api";
+import { saveContactUpdates } from "@/lib/bulk";
+import type { ContactUpdateFailure } from "@/lib/bulk";
+import { CONTACT_FIELDS } from "@/lib/contact";
+import {
+  guessMapping,
+  IMPORT_TARGETS,
+  mergeContact,
+  planImport,
+  readImportFile,
+} from "@/lib/contactImport";
+import type {
+  ColumnMapping,
+  ImportPlan,
+  ImportTable,
+  ImportTarget,
+} from "@/lib/contactImport";
+import type { Announcement, ContactInfo } from "@/lib/types";
+
+interface ImportWizardProps {
+  // Every announcement, so rows can match beyond the visible page
+  loadAnnouncements: () => Promise<Announcement[]>;
+  onApplied: (updates: Map<number, ContactInfo>) => void;
+  onClose: () => void;
+}
+
+type Step = "upload" | "map" | "preview" | "apply";
+
+const fieldLabel = (key: string) =>
+  CONTACT_FIELDS.find((f) => f.key === key)?.label ?? key;
+
+export default function ImportWizard({
+  loadAnnouncements,
+  onApplied,
+  onClose,
+}: ImportWizardProps) {
+  const [step, setStep] = useState<Step>("upload");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [fileName, setFileName] = useState("");
+  const [table, setTable] = useState<ImportTable | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const [excluded, setExcluded] = useState<Set<number>>(new Set());
+  const [overwriteConflicts, setOverwriteConflicts] = useState(false);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [failures, setFailures] = useState<ContactUpdateFailure[]>([]);
+
+  const readFile = async (file: File) => {
+    try {
+      setBusy(true);
+      setError(null);
+      const parsed = await readImportFile(file);
+      setFileName(file.name);
+      setTable(parsed);
+      setMapping(guessMapping(parsed.headers));
+      setStep("map");
+    } catch (error) {
+      console.error("Error reading import file:", error);
+      setError(`Could not read the file: ${describeError(error)}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const setTargetColumn = (target: ImportTarget, value: string) => {
+    const next = { ...mapping };
+    if (value === "") delete next[target];
+    else next[target] = Number(value);
+    setMapping(next);
+  };
+
+  const hasMatchKey =
+    mapping.id !== undefined || mapping.company_name !== undefined;
+  const hasContactField = CONTACT_FIELDS.some(
+    (f) => mapping[f.key] !== undefined
+  );
+
+  const buildPreview = async () => {
+    if (!table) return;
+    try {
+      setBusy(true);
+      setError(null);
+      setPlan(planImport(table, mapping, await loadAnnouncements()));
+      setExcluded(new Set());
+      setStep("preview");
+    } catch (error) {
+      console.error("Error preparing import preview:", error);
+      setError(`Could not load announcements: ${describeError(error)}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const toggleExcluded = (id: number) => {
+    const next = new Set(excluded);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setExcluded(next);
+  };
+
+  const included = plan
+    ? plan.matches.filter((m) => !excluded.has(m.announcement.id))
+    : [];
+  const conflictCount = included.reduce(
+    (count, m) => count + m.changes.filter((c) => c.conflict).length,
+    0
+  );
+
+  const lineConflictCount = included.reduce(
+    (count, m) => count + m.changes.filter((c) => c.replaced.length).length,
+    0
+  );
+
+  const apply = async () => {
+    const total = included.length;
+    setStep("apply");
+    setProgress({ done: 0, total });
+    setFailures([]);
+    const { applied, failures } = await saveContactUpdates(
+      included.map((match) => ({
+        announcement: match.announcement,
+        contact: mergeContact(match, overwriteConflicts),
+      })),
+      "Imported contact",
+      (done) => setProgress({ done, total })
+    );
+    setFailures(failures);
+    if (applied.size > 0) onApplied(applied);
+  };
+
+  const finished = step === "apply" && progress.done === progress.total;
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] overflow-y-auto p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold text-gray-800">
+            Import Contacts
+            {fileName && (
+              <span className="ml-2 text-sm font-normal text-gray-500">
+                {fileName}
+              </span>
+            )}
+          </h2>
+          {(step !== "apply" || finished) && (
+            <button
+              onClick={onClose}
+              className="text-gray-500 hover:text-gray-800 text-sm font-medium"
+            >
+              ✕ Close
+            </button>
+          )}
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mb-4 text-sm">
+            ⚠️ {error}
+          </div>
+        )}
+
+        {step === "upload" && (
+          <div>
+            <p className="text-sm text-gray-600 mb-4">
+              Choose a CSV or Excel file with one contact per row and a header
+              row. Rows are matched to announcements by ID, or by company name
+              when there is no ID.
+            </p>
+            <input
+              type="file"
+              accept=".csv,.txt,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              disabled={busy}
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) readFile(file);
+              }}
+              className="text-sm text-gray-700"
+            />
+            {busy && <div className="text-sm text-gray-500 mt-2">Reading…</div>}
+          </div>
+        )}
+
+        {step === "map" && table && (
+          <div>
+            <p className="text-sm text-gray-600 mb-4">
+              {table.rows.length} rows found. Pick the file column for each
+              field; leave a field on &ldquo;Not imported&rdquo; to skip it.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-4">
+              {IMPORT_TARGETS.map((target) => (
+                <div key={target.key} className="flex items-center gap-2">
+                  <label className="w-40 text-sm font-medium text-gray-700">
+                    {target.label}
+                  </label>
+                  <select
+                    value={mapping[target.key] ?? ""}
+                    onChange={(e) =>
+                      setTargetColumn(target.key, e.target.value)
+                    }
+                    className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded bg-white text-gray-900"
+                  >
+                    <option value="">Not imported</option>
+                    {table.headers.map((header, index) => (
+                      <option key={index} value={index}>
+                        {header || `Column ${index + 1}`} (e.g. &ldquo;
+                        {table.rows[0]?.[index] ?? ""}&rdquo;)
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+            {!hasMatchKey && (
+              <div className="text-sm text-red-600 mb-2">
+                Map the Announcement ID or the Company Name column so rows can
+                be matched.
+              </div>
+            )}
+            <div className="flex gap-2">
+              <button
+                onClick={buildPreview}
+                disabled={!hasMatchKey || !hasContactField || busy}
+                className="bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+              >
+                {busy ? "Matching..." : "Preview Changes →"}
+              </button>
+              <button
+                onClick={() => setStep("upload")}
+                className="bg-gray-600 text-white px-6 py-2 rounded-lg hover:bg-gray-700"
+              >
+                ← Back
+              </button>
+            </div>
+          </div>
+        )}
+
+        {step === "preview" && plan && (
+          <div>
+            <div className="text-sm text-gray-600 mb-3">
+              {plan.matches.length} announcements would change
+              {plan.unmatchedLines.length > 0 && (
+                <span className="text-yellow-700">
+                  {" "}
+                  · {plan.unmatchedLines.length} rows matched nothing (lines{" "}
+                  {plan.unmatchedLines.slice(0, 10).join(", ")}
+                  {plan.unmatchedLines.length > 10 && ", …"})
+                </span>
+              )}
+              {conflictCount > 0 && (
+                <span className="text-red-700">
+                  {" "}
+                  · {conflictCount} conflicting values
+                </span>
+              )}
+              {lineConflictCount > 0 && (
+                <span className="text-yellow-700">
+                  {" "}
+                  · {lineConflictCount} values given differently by several
+                  lines (the last one is used)
+                </span>
+              )}
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-700 mb-3">
+              <input
+                type="checkbox"
+                checked={overwriteConflicts}
+                onChange={(e) => setOverwriteConflicts(e.target.checked)}
+                className="w-4 h-4"
+              />
+              Overwrite existing values that differ (otherwise they are kept)
+            </label>
+            <div className="border rounded-lg divide-y max-h-96 overflow-y-auto mb-4">
+              {plan.matches.map((match) => (
+                <div
+                  key={match.announcement.id}
+                  className={`px-3 py-2 text-sm ${
+                    excluded.has(match.announcement.id) ? "opacity-40" : ""
+                  }`}
+                >
+                  <label className="flex items-center gap-2 font-medium text-gray-800">
+                    <input
+                      type="checkbox"
+                      checked={!excluded.has(match.announcement.id)}
+                      onChange={() => toggleExcluded(match.announcement.id)}
+                      className="w-4 h-4"
+                    />
+                    {match.announcement.company_name} —{" "}
+                    {match.announcement.announcement_title}
+                    <span className="text-xs text-gray-500 font-normal">
+                      (line{match.lines.length > 1 && "s"}{" "}
+                      {match.lines.join(", ")}, by{" "}
+                      {match.matchedBy === "id" ? "ID" : "company"})
+                    </span>
+                  </label>
+                  <ul className="ml-6 mt-1 space-y-0.5">
+                    {match.changes.map((change) => (
+                      <li
+                        key={change.field}
+                        className={
+                          change.conflict
+                            ? "text-red-700 bg-red-50 px-1 rounded"
+                            : "text-gray-700"
+                        }
+                      >
+                        <strong>{fieldLabel(change.field)}:</strong>{" "}
+                        {change.conflict ? (
+                          <>
+                            <span className="line-through">
+                              {change.current}
+                            </span>{" "}
+                            → {change.incoming}{" "}
+                            {!overwriteConflicts && "(kept)"}
+                          </>
+                        ) : (
+                          change.incoming
+                        )}
+                        {change.replaced.length > 0 && (
+                          <span className="ml-1 text-yellow-800 bg-yellow-50 px-1 rounded">
+                            line {change.line} wins over{" "}
+                            {change.replaced
+                              .map((r) => `line ${r.line} (${r.incoming})`)
+                              .join(", ")}
+                          </span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={apply}
+                disabled={included.length === 0}
+                className="bg-green-600 text-white px-6 py-2 rounded-lg hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+              >
+                ✓ Apply {included.length} updates
+              </button>
+              <button
+                onClick={() => setStep("map")}
+                className="bg-gray-600 text-white px-6 py-2 rounded-lg hover:bg-gray-700"
+              >
+                ← Back
+              </button>
+            </div>
+          </div>
+        )}
+
+        {step === "apply" && (
+          <div>
+            <div className="text-sm text-gray-700 mb-2">
+              {finished ? "Import finished" : "Applying updates…"}{" "}
+              {progress.done} / {progress.total}
+            </div>
+            <div className="w-full bg-gray-200 rounded-full h-2 mb-4">
+              <div
+                className="bg-green-600 h-2 rounded-full"
+                style={{
+                  width: `${
+                    progress.total ? (progress.done / progress.total) * 100 : 0
+                  }%`,
+                }}
+              />
+            </div>
+            {finished && (
+              <div className="text-sm">
+                <div className="text-green-700 mb-2">
+                  ✅ {progress.total - failures.length} announcements updated
+                </div>
+                {failures.length > 0 && (
+                  <div className="text-red-700">
+                    ⚠️ {failures.length} failed:
+                    <ul className="list-disc list-inside mt-1">
+                      {failures.map((failure) => (
+                        <li key={failure.announcement.id}>
+                          {failure.announcement.company_name} (#
+                          {failure.announcement.id}): {failure.message}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
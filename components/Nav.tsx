@@ -0,0 +1,82 @@
+"use client";
+
+import Link from "next/link";
+import { usePathname } from "next/navigation";
+import { logout } from "@/lib/api";
+import { AUTH_ENABLED, clearSession, LOGIN_PATH } from "@/lib/session";
+import { useCurrentUser } from "@/lib/useCurrentUser";
+
+const LINKS = [
+  { href: "/", label: "📋 Dashboard" },
+  { href: "/pipeline", label: "🗂️ Pipeline" },
+  { href: "/analytics", label: "📈 Analytics" },
+  { href: "/map", label: "🗺️ Map" },
+  { href: "/companies", label: "🏢 Companies" },
+  { href: "/duplicates", label: "🔗 Duplicates" },
+  { href: "/runs", label: "🕘 Scrape Runs" },
+  { href: "/schedules", label: "⏰ Schedules" },
+];
+
+// Ends the session even when the backend can't be told about it
+const logOut = async () => {
+  try {
+    await logout();
+  } catch (error) {
+    console.error("Error logging out:", error);
+  }
+  clearSession();
+  window.location.assign(LOGIN_PATH);
+};
+
+export default function Nav() {
+  const pathname = usePathname();
+
+  if (pathname === LOGIN_PATH) return null;
+  return <NavBar pathname={pathname} />;
+}
+
+function NavBar({ pathname }: { pathname: string }) {
+  const { user, loaded } = useCurrentUser();
+
+  return (
+    <nav className="bg-white border-b shadow-sm">
+      <div className="max-w-7xl mx-auto px-8 flex gap-2 items-center">
+        {LINKS.map((link) => {
+          const active =
+            link.href === "/"
+              ? pathname === "/"
+              : pathname.startsWith(link.href);
+          return (
+            <Link
+              key={link.href}
+              href={link.href}
+              className={`px-4 py-3 text-sm font-medium border-b-2 ${
+                active
+                  ? "border-blue-600 text-blue-700"
+                  : "border-transparent text-gray-600 hover:text-gray-900"
+              }`}
+            >
+              {link.label}
+            </Link>
+          );
+        })}
+        {loaded && (
+          <div className="ml-auto flex items-center gap-3 text-sm">
+            <span className="text-gray-600">
+              {user.name && `${user.name} · `}
+              <span className="font-medium">{user.role}</span>
+            </span>
+            {AUTH_ENABLED && (
+              <button
+                onClick={logOut}
+                className="text-gray-600 hover:text-gray-900 font-medium"
+              >
+                Log Out
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </nav>
+  );
+}
@@ -0,0 +1,187 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { describeError } from "@/lib/api";
+import { saveContactUpdates } from "@/lib/bulk";
+import { CONTACT_FIELDS } from "@/lib/contact";
+import { planNormalization } from "@/lib/contactFormat";
+import type { NormalizationPlan } from "@/lib/contactFormat";
+import type { Announcement, ContactInfo } from "@/lib/types";
+
+interface NormalizeContactsDialogProps {
+  // Every announcement, not only the visible page
+  loadAnnouncements: () => Promise<Announcement[]>;
+  onApplied: (updates: Map<number, ContactInfo>) => void;
+  onClose: () => void;
+}
+
+const fieldLabel = (key: string) =>
+  CONTACT_FIELDS.find((f) => f.key === key)?.label ?? key;
+
+export default function NormalizeContactsDialog({
+  loadAnnouncements,
+  onApplied,
+  onClose,
+}: NormalizeContactsDialogProps) {
+  const [plans, setPlans] = useState<NormalizationPlan[] | null>(null);
+  const [excluded, setExcluded] = useState<Set<number>>(new Set());
+  const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<{
+    done: number;
+    total: number;
+    failed: number;
+  } | null>(null);
+
+  useEffect(() => {
+    loadAnnouncements()
+      .then((announcements) => setPlans(planNormalization(announcements)))
+      .catch((error) => {
+        console.error("Error preparing contact normalization:", error);
+        setError(`Could not load announcements: ${describeError(error)}`);
+      });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const toggleExcluded = (id: number) => {
+    const next = new Set(excluded);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setExcluded(next);
+  };
+
+  const fixable = (plans ?? []).filter((p) => p.changes.length > 0);
+  const unfixable = (plans ?? []).filter(
+    (p) => Object.keys(p.errors).length > 0
+  );
+  const included = fixable.filter((p) => !excluded.has(p.announcement.id));
+
+  const apply = async () => {
+    const total = included.length;
+    setProgress({ done: 0, total, failed: 0 });
+    const { applied } = await saveContactUpdates(
+      included,
+      "Normalized contact",
+      (done, failed) => setProgress({ done, total, failed })
+    );
+    if (applied.size > 0) onApplied(applied);
+  };
+
+  const running = progress !== null && progress.done < progress.total;
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] overflow-y-auto p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold text-gray-800">
+            Normalize Contacts
+          </h2>
+          {!running && (
+            <button
+              onClick={onClose}
+              className="text-gray-500 hover:text-gray-800 text-sm font-medium"
+            >
+              ✕ Close
+            </button>
+          )}
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mb-4 text-sm">
+            ⚠️ {error}
+          </div>
+        )}
+
+        {!plans && !error && (
+          <div className="text-sm text-gray-500">Checking contacts…</div>
+        )}
+
+        {plans && !progress && (
+          <div>
+            <p className="text-sm text-gray-600 mb-3">
+              Phones become +213…, postal codes five digits, emails lowercase
+              and web sites get https://. {fixable.length} announcements would
+              change
+              {unfixable.length > 0 && (
+                <span className="text-red-700">
+                  {" "}
+                  · {unfixable.length} have values that need fixing by hand
+                </span>
+              )}
+            </p>
+            <div className="border rounded-lg divide-y max-h-96 overflow-y-auto mb-4">
+              {plans.map((plan) => (
+                <div
+                  key={plan.announcement.id}
+                  className={`px-3 py-2 text-sm ${
+                    excluded.has(plan.announcement.id) ? "opacity-40" : ""
+                  }`}
+                >
+                  <label className="flex items-center gap-2 font-medium text-gray-800">
+                    {plan.changes.length > 0 && (
+                      <input
+                        type="checkbox"
+                        checked={!excluded.has(plan.announcement.id)}
+                        onChange={() => toggleExcluded(plan.announcement.id)}
+                        className="w-4 h-4"
+                      />
+                    )}
+                    {plan.announcement.company_name} —{" "}
+                    {plan.announcement.announcement_title}
+                  </label>
+                  <ul className="ml-6 mt-1 space-y-0.5">
+                    {plan.changes.map((change) => (
+                      <li key={change.field} className="text-gray-700">
+                        <strong>{fieldLabel(change.field)}:</strong>{" "}
+                        <span className="line-through">{change.before}</span> →{" "}
+                        {change.after}
+                      </li>
+                    ))}
+                    {Object.entries(plan.errors).map(([field, message]) => (
+                      <li
+                        key={field}
+                        className="text-red-700 bg-red-50 px-1 rounded"
+                      >
+                        <strong>{fieldLabel(field)}:</strong> {message}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+            <button
+              onClick={apply}
+              disabled={included.length === 0}
+              className="bg-green-600 text-white px-6 py-2 rounded-lg hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+            >
+              ✓ Normalize {included.length} announcements
+            </button>
+          </div>
+        )}
+
+        {progress && (
+          <div>
+            <div className="text-sm text-gray-700 mb-2">
+              {running ? "Saving…" : "Finished"} {progress.done} /{" "}
+              {progress.total}
+              {progress.failed > 0 && (
+                <span className="text-red-700 ml-2">
+                  ⚠️ {progress.failed} failed
+                </span>
+              )}
+            </div>
+            <div className="w-full bg-gray-200 rounded-full h-2">
+              <div
+                className="bg-green-600 h-2 rounded-full"
+                style={{
+                  width: `${
+                    progress.total ? (progress.done / progress.total) * 100 : 0
+                  }%`,
+                }}
+              />
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
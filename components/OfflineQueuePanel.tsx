@@ -0,0 +1,132 @@
+"use client";
+
+import { useState } from "react";
+import { describeError } from "@/lib/api";
+import { CONTACT_FIELDS } from "@/lib/contact";
+import { formatDateTime } from "@/lib/format";
+import type { QueuedEdit } from "@/lib/offlineStore";
+import { useToast } from "@/lib/toast";
+
+const fieldLabel = (field: string) =>
+  field === "status"
+    ? "Stage"
+    : CONTACT_FIELDS.find((f) => f.key === field)?.label ?? field;
+
+const describeEdit = (edit: QueuedEdit) =>
+  edit.kind === "stage" ? `Moved to ${edit.label}` : "Edited contact";
+
+export default function OfflineQueuePanel({
+  queued,
+  syncing,
+  onSync,
+  onResolve,
+}: {
+  queued: QueuedEdit[];
+  syncing: boolean;
+  onSync: () => void;
+  onResolve: (edit: QueuedEdit, keep: "mine" | "theirs") => Promise<void>;
+}) {
+  const [resolving, setResolving] = useState<number | null>(null);
+  const toast = useToast();
+  const problems = queued.filter((e) => e.conflicts?.length || e.error);
+
+  const resolve = async (edit: QueuedEdit, keep: "mine" | "theirs") => {
+    try {
+      setResolving(edit.seq ?? null);
+      await onResolve(edit, keep);
+    } catch (error) {
+      console.error("Error resolving queued edit:", error);
+      toast.error(`Could not resolve the edit: ${describeError(error)}`);
+    } finally {
+      setResolving(null);
+    }
+  };
+
+  return (
+    <div className="bg-orange-50 border border-orange-200 text-orange-800 px-4 py-3 rounded-lg mb-6">
+      <div className="flex justify-between items-center">
+        <span className="text-sm">
+          📤 {queued.length} edit{queued.length === 1 ? "" : "s"} not sent to
+          the backend yet
+          {problems.length > 0 &&
+            ` (${problems.length} need${
+              problems.length === 1 ? "s" : ""
+            } attention)`}
+        </span>
+        <button
+          onClick={onSync}
+          disabled={syncing}
+          className="text-orange-700 hover:text-orange-900 text-sm font-medium disabled:text-gray-400"
+        >
+          {syncing ? "🔄 Syncing..." : "🔄 Sync Now"}
+        </button>
+      </div>
+      {problems.length > 0 && (
+        <ul className="mt-3 space-y-2">
+          {problems.map((edit) => (
+            <li key={edit.seq} className="bg-white rounded p-3 text-sm">
+              <div className="flex justify-between items-start gap-4">
+                <div>
+                  <div className="font-medium text-gray-900">{edit.title}</div>
+                  <div className="text-xs text-gray-500">
+                    {describeEdit(edit)} · {formatDateTime(edit.queuedAt)}
+                  </div>
+                </div>
+                <div className="flex gap-2 flex-shrink-0">
+                  {edit.conflicts?.length ? (
+                    <>
+                      <button
+                        onClick={() => resolve(edit, "mine")}
+                        disabled={resolving !== null}
+                        className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-400"
+                      >
+                        Keep Mine
+                      </button>
+                      <button
+                        onClick={() => resolve(edit, "theirs")}
+                        disabled={resolving !== null}
+                        className="px-3 py-1 text-sm bg-gray-200 text-gray-800 rounded hover:bg-gray-300 disabled:text-gray-400"
+                      >
+                        Keep Server
+                      </button>
+                    </>
+                  ) : (
+                    <button
+                      onClick={() => resolve(edit, "theirs")}
+                      disabled={resolving !== null}
+                      className="px-3 py-1 text-sm bg-gray-200 text-gray-800 rounded hover:bg-gray-300 disabled:text-gray-400"
+                    >
+                      ✕ Discard
+                    </button>
+                  )}
+                </div>
+              </div>
+              {edit.conflicts?.length ? (
+                <table className="mt-2 text-xs text-gray-700">
+                  <thead>
+                    <tr className="text-gray-500">
+                      <th className="pr-4 text-left font-medium">Field</th>
+                      <th className="pr-4 text-left font-medium">Server</th>
+                      <th className="text-left font-medium">Mine</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {edit.conflicts.map((conflict) => (
+                      <tr key={conflict.field}>
+                        <td className="pr-4">{fieldLabel(conflict.field)}</td>
+                        <td className="pr-4">{conflict.server || "—"}</td>
+                        <td>{conflict.mine || "—"}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              ) : (
+                <div className="mt-1 text-xs text-red-700">⚠️ {edit.error}</div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
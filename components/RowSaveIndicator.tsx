@@ -0,0 +1,46 @@
+"use client";
+
+import type { RowSave } from "@/lib/useRowSaves";
+
+export default function RowSaveIndicator({
+  save,
+  queued = false,
+}: {
+  save?: RowSave;
+  // An edit for the row waits in the offline queue
+  queued?: boolean;
+}) {
+  if (save?.status === "pending") {
+    return (
+      <span title="Saving..." className="text-xs text-gray-400">
+        ⏳
+      </span>
+    );
+  }
+  if (save?.status === "saved") {
+    return (
+      <span title="Saved" className="text-xs text-green-600">
+        ✓
+      </span>
+    );
+  }
+  if (save?.status === "error") {
+    return (
+      <button
+        onClick={save.retry}
+        title={save.message}
+        className="text-xs text-red-600 hover:text-red-800 font-medium whitespace-nowrap"
+      >
+        ⚠️ Retry
+      </button>
+    );
+  }
+  if (queued) {
+    return (
+      <span title="Waiting to be sent" className="text-xs text-orange-600">
+        📤
+      </span>
+    );
+  }
+  return null;
+}
@@ -0,0 +1,18 @@
+import type { RunChange } from "@/lib/types";
+
+export default function RunChangeBadge({ change }: { change: RunChange }) {
+  if (change.change === "new") {
+    return (
+      <span className="inline-block mt-1 px-2 py-0.5 text-xs font-semibold rounded-full bg-teal-100 text-teal-800">
+        🆕 New in this run
+      </span>
+    );
+  }
+  return (
+    <span className="inline-block mt-1 px-2 py-0.5 text-xs font-semibold rounded-full bg-amber-100 text-amber-800">
+      ✏️ Updated
+      {change.changed_fields.length > 0 &&
+        `: ${change.changed_fields.join(", ")}`}
+    </span>
+  );
+}
@@ -0,0 +1,22 @@
+import type { ScrapeRun } from "@/lib/types";
+
+const STATUS_STYLES: Record<ScrapeRun["status"], string> = {
+  running: "bg-blue-100 text-blue-800",
+  completed: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+  cancelled: "bg-gray-100 text-gray-700",
+};
+
+export default function RunStatusBadge({
+  status,
+}: {
+  status: ScrapeRun["status"];
+}) {
+  return (
+    <span
+      className={`px-2 py-1 text-xs font-semibold rounded-full ${STATUS_STYLES[status]}`}
+    >
+      {status}
+    </span>
+  );
+}
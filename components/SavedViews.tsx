@@ -0,0 +1,220 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { downloadFile, todayStamp } from "@/lib/download";
+import type { AnnouncementFilters, SortState } from "@/lib/filters";
+import {
+  createView,
+  exportViews,
+  loadViews,
+  parseViews,
+  storeViews,
+  viewMatches,
+} from "@/lib/savedViews";
+import type { SavedView } from "@/lib/savedViews";
+import { useToast } from "@/lib/toast";
+
+interface SavedViewsProps {
+  filters: AnnouncementFilters;
+  sort: SortState | null;
+  onApply: (view: SavedView) => void;
+}
+
+export default function SavedViews({
+  filters,
+  sort,
+  onApply,
+}: SavedViewsProps) {
+  const [views, setViews] = useState<SavedView[]>([]);
+  const [managing, setManaging] = useState(false);
+  const [renaming, setRenaming] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState("");
+  const importInput = useRef<HTMLInputElement>(null);
+  const toast = useToast();
+
+  useEffect(() => {
+    setViews(loadViews());
+  }, []);
+
+  const updateViews = (next: SavedView[]) => {
+    setViews(next);
+    storeViews(next);
+  };
+
+  const saveCurrentView = () => {
+    const name = prompt("Name this view:")?.trim();
+    if (!name) return;
+    updateViews([...views, createView(name, filters, sort)]);
+  };
+
+  const startRenaming = (view: SavedView) => {
+    setRenaming(view.id);
+    setRenameValue(view.name);
+  };
+
+  const finishRenaming = () => {
+    const name = renameValue.trim();
+    if (renaming && name) {
+      updateViews(views.map((v) => (v.id === renaming ? { ...v, name } : v)));
+    }
+    setRenaming(null);
+  };
+
+  const moveView = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= views.length) return;
+    const next = [...views];
+    [next[index], next[target]] = [next[target], next[index]];
+    updateViews(next);
+  };
+
+  const deleteView = (view: SavedView) => {
+    if (!confirm(`Delete the view "${view.name}"?`)) return;
+    updateViews(views.filter((v) => v.id !== view.id));
+  };
+
+  const exportToJSON = () => {
+    downloadFile(
+      exportViews(views),
+      `espaceagro-views-${todayStamp()}.json`,
+      "application/json;charset=utf-8;"
+    );
+  };
+
+  const importFromJSON = async (file: File) => {
+    try {
+      const imported = parseViews(JSON.parse(await file.text()));
+      updateViews([...views, ...imported]);
+      toast.success(`Imported ${imported.length} view(s).`);
+    } catch (error) {
+      console.error("Error importing views:", error);
+      toast.error(
+        `Could not import views: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  };
+
+  return (
+    <>
+      {views.length > 0 && (
+        <span className="text-sm font-medium text-gray-600 ml-2 mr-1">
+          Views:
+        </span>
+      )}
+      {views.map((view) => (
+        <button
+          key={view.id}
+          onClick={() => onApply(view)}
+          className={`px-3 py-1 rounded-full text-sm ${
+            viewMatches(view, filters, sort)
+              ? "bg-blue-100 text-blue-800 border border-blue-300"
+              : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+          }`}
+        >
+          ⭐ {view.name}
+        </button>
+      ))}
+      <button
+        onClick={saveCurrentView}
+        className="px-3 py-1 rounded-full text-sm bg-blue-50 text-blue-700 hover:bg-blue-100"
+      >
+        💾 Save View
+      </button>
+      <button
+        onClick={() => setManaging(!managing)}
+        className="px-3 py-1 rounded-full text-sm bg-gray-100 text-gray-700 hover:bg-gray-200"
+      >
+        {managing ? "✕ Close" : "⚙️ Manage Views"}
+      </button>
+
+      {managing && (
+        <div className="w-full border-t mt-2 pt-3">
+          {views.length === 0 ? (
+            <div className="text-sm text-gray-500 mb-2">
+              No saved views yet. Set some filters and click &ldquo;Save
+              View&rdquo;.
+            </div>
+          ) : (
+            <ul className="space-y-1 mb-3">
+              {views.map((view, index) => (
+                <li key={view.id} className="flex items-center gap-2 text-sm">
+                  {renaming === view.id ? (
+                    <input
+                      autoFocus
+                      value={renameValue}
+                      onChange={(e) => setRenameValue(e.target.value)}
+                      onBlur={finishRenaming}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") finishRenaming();
+                        if (e.key === "Escape") setRenaming(null);
+                      }}
+                      className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded bg-white text-gray-900"
+                    />
+                  ) : (
+                    <span className="flex-1 text-gray-800">{view.name}</span>
+                  )}
+                  <button
+                    onClick={() => moveView(index, -1)}
+                    disabled={index === 0}
+                    className="px-2 text-gray-600 hover:text-gray-900 disabled:opacity-30"
+                    title="Move up"
+                  >
+                    ↑
+                  </button>
+                  <button
+                    onClick={() => moveView(index, 1)}
+                    disabled={index === views.length - 1}
+                    className="px-2 text-gray-600 hover:text-gray-900 disabled:opacity-30"
+                    title="Move down"
+                  >
+                    ↓
+                  </button>
+                  <button
+                    onClick={() => startRenaming(view)}
+                    className="text-blue-600 hover:text-blue-800"
+                  >
+                    ✏️ Rename
+                  </button>
+                  <button
+                    onClick={() => deleteView(view)}
+                    className="text-red-600 hover:text-red-800"
+                  >
+                    🗑️ Delete
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="flex gap-2">
+            <button
+              onClick={exportToJSON}
+              disabled={views.length === 0}
+              className="px-3 py-1 rounded text-sm bg-indigo-600 text-white hover:bg-indigo-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+            >
+              📤 Export Views
+            </button>
+            <button
+              onClick={() => importInput.current?.click()}
+              className="px-3 py-1 rounded text-sm bg-indigo-600 text-white hover:bg-indigo-700"
+            >
+              📥 Import Views
+            </button>
+            <input
+              ref={importInput}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) importFromJSON(file);
+                e.target.value = "";
+              }}
+            />
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
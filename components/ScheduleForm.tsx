@@ -0,0 +1,219 @@
+"use client";
+
+import { useState } from "react";
+import {
+  cronToPicker,
+  nextCronRun,
+  pickerToCron,
+  validateCron,
+  WEEKDAYS,
+} from "@/lib/cron";
+import type { SchedulePicker } from "@/lib/cron";
+import type { ScrapeSchedule, ScrapeScheduleInput } from "@/lib/types";
+
+interface ScheduleFormProps {
+  // Existing schedule when editing, null when creating
+  schedule: ScrapeSchedule | null;
+  saving: boolean;
+  onSave: (input: ScrapeScheduleInput) => void;
+  onCancel: () => void;
+}
+
+const splitList = (value: string) =>
+  value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+export default function ScheduleForm({
+  schedule,
+  saving,
+  onSave,
+  onCancel,
+}: ScheduleFormProps) {
+  const [name, setName] = useState(schedule?.name ?? "");
+  const [picker, setPicker] = useState<SchedulePicker>(() =>
+    schedule
+      ? cronToPicker(schedule.cron)
+      : { frequency: "daily", time: "06:00", weekdays: [1], cron: "0 6 * * *" }
+  );
+  const [types, setTypes] = useState(
+    schedule?.announcement_types.join(", ") ?? ""
+  );
+  const [categories, setCategories] = useState(
+    schedule?.categories.join(", ") ?? ""
+  );
+
+  const cron = pickerToCron(picker);
+  const cronError =
+    picker.frequency === "weekly" && picker.weekdays.length === 0
+      ? "Pick at least one weekday"
+      : validateCron(cron);
+  const nextRun = cronError ? null : nextCronRun(cron);
+  const canSave = name.trim() !== "" && !cronError && !saving;
+
+  const toggleWeekday = (day: number) => {
+    setPicker({
+      ...picker,
+      weekdays: picker.weekdays.includes(day)
+        ? picker.weekdays.filter((d) => d !== day)
+        : [...picker.weekdays, day],
+    });
+  };
+
+  const submit = () => {
+    if (!canSave) return;
+    onSave({
+      name: name.trim(),
+      cron,
+      announcement_types: splitList(types),
+      categories: splitList(categories),
+      paused: schedule?.paused ?? false,
+    });
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+      <h2 className="text-xl font-semibold text-gray-800 mb-4">
+        {schedule ? `Edit “${schedule.name}”` : "New Schedule"}
+      </h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Name
+          </label>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. Morning cereal offers"
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white text-gray-900 placeholder-gray-500"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Frequency
+          </label>
+          <select
+            value={picker.frequency}
+            onChange={(e) =>
+              setPicker({
+                ...picker,
+                frequency: e.target.value as SchedulePicker["frequency"],
+                cron: picker.frequency === "cron" ? picker.cron : cron,
+              })
+            }
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white text-gray-900"
+          >
+            <option value="daily">Daily</option>
+            <option value="weekly">Weekly</option>
+            <option value="cron">Custom (cron)</option>
+          </select>
+        </div>
+      </div>
+
+      {picker.frequency === "cron" ? (
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Cron expression
+          </label>
+          <input
+            type="text"
+            value={picker.cron}
+            onChange={(e) => setPicker({ ...picker, cron: e.target.value })}
+            placeholder="minute hour day month weekday, e.g. 30 7 * * 1-5"
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white text-gray-900 placeholder-gray-500 font-mono"
+          />
+        </div>
+      ) : (
+        <div className="flex flex-wrap gap-4 items-end mb-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Time
+            </label>
+            <input
+              type="time"
+              value={picker.time}
+              onChange={(e) =>
+                setPicker({ ...picker, time: e.target.value || "00:00" })
+              }
+              className="px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white text-gray-900"
+            />
+          </div>
+          {picker.frequency === "weekly" && (
+            <div className="flex gap-1">
+              {WEEKDAYS.map((label, day) => (
+                <button
+                  key={label}
+                  onClick={() => toggleWeekday(day)}
+                  className={`px-3 py-2 rounded-lg text-sm ${
+                    picker.weekdays.includes(day)
+                      ? "bg-blue-600 text-white"
+                      : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Announcement types
+          </label>
+          <input
+            type="text"
+            value={types}
+            onChange={(e) => setTypes(e.target.value)}
+            placeholder="Comma-separated, empty for all"
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white text-gray-900 placeholder-gray-500"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Categories
+          </label>
+          <input
+            type="text"
+            value={categories}
+            onChange={(e) => setCategories(e.target.value)}
+            placeholder="Comma-separated, empty for all"
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white text-gray-900 placeholder-gray-500"
+          />
+        </div>
+      </div>
+
+      <div className="text-sm mb-4">
+        {cronError ? (
+          <span className="text-red-600">⚠️ {cronError}</span>
+        ) : (
+          <span className="text-gray-600">
+            <span className="font-mono">{cron}</span> — next run{" "}
+            {nextRun ? nextRun.toLocaleString() : "not within a year"}
+          </span>
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          onClick={submit}
+          disabled={!canSave}
+          className="bg-green-600 text-white px-6 py-2 rounded-lg hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+        >
+          {saving ? "Saving..." : "✓ Save Schedule"}
+        </button>
+        <button
+          onClick={onCancel}
+          className="bg-gray-600 text-white px-6 py-2 rounded-lg hover:bg-gray-700"
+        >
+          ✗ Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { ScrapeTransport } from "@/lib/scrapeStream";
+import type { ScrapeStatus } from "@/lib/types";
+
+interface ScrapeProgressPanelProps {
+  status: ScrapeStatus;
+  // Used for the elapsed time when the backend doesn't report started_at.
+  localStartedAt: number;
+  transport: ScrapeTransport | null;
+  stopping: boolean;
+  // The backend took a cancel request for this run, so it ended early even
+  // if its final status doesn't say so
+  cancelRequested: boolean;
+  onDismiss: () => void;
+}
+
+const formatElapsed = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, "0")}`;
+};
+
+const parseTime = (value?: string) => {
+  if (!value) return null;
+  const time = new Date(value).getTime();
+  return Number.isNaN(time) ? null : time;
+};
+
+export default function ScrapeProgressPanel({
+  status,
+  localStartedAt,
+  transport,
+  stopping,
+  cancelRequested,
+  onDismiss,
+}: ScrapeProgressPanelProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!status.running) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [status.running]);
+
+  const startedAt = parseTime(status.started_at) ?? localStartedAt;
+  const endedAt = status.running ? now : parseTime(status.finished_at) ?? now;
+  const errors = status.errors ?? [];
+  const title = status.running
+    ? stopping
+      ? "⏳ Stopping… waiting for the scraper to confirm"
+      : "🔄 Scraping in progress"
+    : status.cancelled || cancelRequested
+    ? "⏹️ Scraping stopped — partial results below"
+    : "✅ Scraping finished";
+
+  const counters = [
+    { label: "Pages Visited", value: status.pages_visited },
+    { label: "Found", value: status.announcements_found },
+    { label: "New", value: status.new_count },
+    { label: "Duplicates", value: status.duplicate_count },
+    { label: "Errors", value: status.errors ? errors.length : undefined },
+  ];
+
+  return (
+    <div
+      className={`border rounded-lg p-4 mb-6 ${
+        status.running
+          ? "bg-blue-50 border-blue-200"
+          : "bg-green-50 border-green-200"
+      }`}
+    >
+      <div className="flex justify-between items-center mb-3">
+        <div className="text-sm font-medium text-gray-800">
+          {title}
+          <span className="ml-2 text-gray-500 font-normal">
+            ⏱️ {formatElapsed(endedAt - startedAt)}
+          </span>
+          {transport && (
+            <span className="ml-2 text-xs text-gray-400 font-normal">
+              ({transport === "stream" ? "live" : "polling"})
+            </span>
+          )}
+        </div>
+        {!status.running && (
+          <button
+            onClick={onDismiss}
+            className="text-gray-600 hover:text-gray-800 text-sm font-medium"
+          >
+            ✕ Dismiss
+          </button>
+        )}
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mb-3">
+        {counters.map((counter) => (
+          <div key={counter.label} className="bg-white rounded p-2">
+            <div className="text-lg font-bold text-gray-800">
+              {counter.value ?? "–"}
+            </div>
+            <div className="text-xs text-gray-600">{counter.label}</div>
+          </div>
+        ))}
+      </div>
+      {status.message && (
+        <div className="text-sm text-gray-700">{status.message}</div>
+      )}
+      {errors.length > 0 && (
+        <ul className="mt-2 text-xs text-red-700 list-disc list-inside max-h-24 overflow-y-auto">
+          {errors.map((message, index) => (
+            <li key={index}>{message}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+"use client";
+
+import { useState } from "react";
+import {
+  isFixedStage,
+  STAGE_COLORS,
+  STAGE_STYLES,
+  stageIdFor,
+} from "@/lib/pipeline";
+import type { PipelineStage, StageColor } from "@/lib/pipeline";
+
+interface StageEditorProps {
+  stages: PipelineStage[];
+  saving: boolean;
+  onSave: (stages: PipelineStage[]) => void;
+  onCancel: () => void;
+}
+
+export default function StageEditor({
+  stages: initial,
+  saving,
+  onSave,
+  onCancel,
+}: StageEditorProps) {
+  const [stages, setStages] = useState(initial);
+  const [newLabel, setNewLabel] = useState("");
+
+  const updateStage = (id: string, changes: Partial<PipelineStage>) => {
+    setStages(stages.map((s) => (s.id === id ? { ...s, ...changes } : s)));
+  };
+
+  const moveStage = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= stages.length) return;
+    const next = [...stages];
+    [next[index], next[target]] = [next[target], next[index]];
+    setStages(next);
+  };
+
+  const addStage = () => {
+    const label = newLabel.trim();
+    if (!label) return;
+    setStages([
+      ...stages,
+      { id: stageIdFor(label, stages), label, color: "teal" },
+    ]);
+    setNewLabel("");
+  };
+
+  const valid = stages.every((s) => s.label.trim() !== "");
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+      <h2 className="text-xl font-semibold text-gray-800 mb-2">
+        Pipeline Stages
+      </h2>
+      <p className="text-sm text-gray-600 mb-4">
+        New and Reviewed can be renamed but not removed: announcements from
+        before the pipeline start there. Announcements in a removed stage keep
+        it until they are moved.
+      </p>
+      <ul className="border rounded-lg divide-y mb-4">
+        {stages.map((stage, index) => (
+          <li key={stage.id} className="flex items-center gap-2 px-3 py-2">
+            <input
+              type="text"
+              value={stage.label}
+              onChange={(e) => updateStage(stage.id, { label: e.target.value })}
+              className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded bg-white text-gray-900"
+            />
+            <select
+              value={stage.color}
+              onChange={(e) =>
+                updateStage(stage.id, { color: e.target.value as StageColor })
+              }
+              className={`px-2 py-1 text-sm rounded ${
+                STAGE_STYLES[stage.color].badge
+              }`}
+            >
+              {STAGE_COLORS.map((color) => (
+                <option key={color} value={color}>
+                  {color}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => moveStage(index, -1)}
+              disabled={index === 0}
+              className="px-2 text-gray-600 hover:text-gray-900 disabled:opacity-30"
+              title="Move up"
+            >
+              ↑
+            </button>
+            <button
+              onClick={() => moveStage(index, 1)}
+              disabled={index === stages.length - 1}
+              className="px-2 text-gray-600 hover:text-gray-900 disabled:opacity-30"
+              title="Move down"
+            >
+              ↓
+            </button>
+            <button
+              onClick={() => setStages(stages.filter((s) => s.id !== stage.id))}
+              disabled={isFixedStage(stage.id)}
+              className="px-2 text-red-600 hover:text-red-800 disabled:opacity-30"
+              title="Remove"
+            >
+              🗑️
+            </button>
+          </li>
+        ))}
+      </ul>
+      <div className="flex gap-2 mb-4">
+        <input
+          type="text"
+          placeholder="New stage name"
+          value={newLabel}
+          onChange={(e) => setNewLabel(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") addStage();
+          }}
+          className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900"
+        />
+        <button
+          onClick={addStage}
+          disabled={!newLabel.trim()}
+          className="bg-gray-600 text-white px-4 py-2 rounded-lg hover:bg-gray-700 disabled:bg-gray-400"
+        >
+          ➕ Add Stage
+        </button>
+      </div>
+      <div className="flex gap-2">
+        <button
+          onClick={() =>
+            onSave(stages.map((s) => ({ ...s, label: s.label.trim() })))
+          }
+          disabled={saving || !valid}
+          className="bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+        >
+          {saving ? "Saving..." : "Save Stages"}
+        </button>
+        <button
+          onClick={onCancel}
+          disabled={saving}
+          className="bg-gray-600 text-white px-6 py-2 rounded-lg hover:bg-gray-700"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+"use client";
+
+import { findStage, STAGE_STYLES } from "@/lib/pipeline";
+import type { PipelineStage } from "@/lib/pipeline";
+
+interface StageSelectProps {
+  stages: PipelineStage[];
+  value: string;
+  disabled?: boolean;
+  onChange: (stage: string) => void;
+}
+
+export default function StageSelect({
+  stages,
+  value,
+  disabled,
+  onChange,
+}: StageSelectProps) {
+  const current = findStage(stages, value);
+  // Keep a removed stage selectable so the record still shows where it is
+  const options = stages.some((s) => s.id === value)
+    ? stages
+    : [...stages, current];
+
+  return (
+    <select
+      value={value}
+      disabled={disabled}
+      onChange={(e) => onChange(e.target.value)}
+      className={`px-2 py-1 text-xs font-semibold rounded-full border-0 cursor-pointer disabled:cursor-not-allowed ${
+        STAGE_STYLES[current.color].badge
+      }`}
+    >
+      {options.map((stage) => (
+        <option key={stage.id} value={stage.id}>
+          {stage.label}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,56 @@
+"use client";
+
+import Link from "next/link";
+import type { PeriodBucket } from "@/lib/analytics";
+import { dashboardHref } from "@/lib/urlState";
+
+// One column per day or week; the green part is what has been checked
+export default function TimelineChart({
+  buckets,
+}: {
+  buckets: PeriodBucket[];
+}) {
+  const max = Math.max(0, ...buckets.map((b) => b.count));
+
+  if (buckets.length === 0) {
+    return <div className="text-sm text-gray-500">No dated announcements.</div>;
+  }
+
+  return (
+    <div>
+      <div className="flex items-end gap-px h-48 overflow-x-auto">
+        {buckets.map((bucket) => {
+          const label =
+            bucket.from === bucket.to
+              ? bucket.from
+              : `${bucket.from} – ${bucket.to}`;
+          return (
+            <Link
+              key={bucket.from}
+              href={dashboardHref({ dateFrom: bucket.from, dateTo: bucket.to })}
+              title={`${label}: ${bucket.count} announcements, ${bucket.checked} checked`}
+              className="group flex-1 min-w-[6px] h-full flex flex-col justify-end"
+            >
+              <span
+                className="block bg-blue-400 group-hover:bg-blue-600"
+                style={{
+                  height: `${
+                    max ? ((bucket.count - bucket.checked) / max) * 100 : 0
+                  }%`,
+                }}
+              />
+              <span
+                className="block bg-green-500 group-hover:bg-green-700"
+                style={{ height: `${max ? (bucket.checked / max) * 100 : 0}%` }}
+              />
+            </Link>
+          );
+        })}
+      </div>
+      <div className="flex justify-between text-xs text-gray-500 mt-1">
+        <span>{buckets[0].from}</span>
+        <span>{buckets[buckets.length - 1].to}</span>
+      </div>
+    </div>
+  );
+}
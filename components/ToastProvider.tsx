@@ -0,0 +1,88 @@
+"use client";
+
+import { useCallback, useRef, useState } from "react";
+import { ToastContext } from "@/lib/toast";
+import type { Toast, ToastAction, ToastTone } from "@/lib/toast";
+
+// Errors stay up longer so there is time to hit Retry
+const DURATION_MS: Record<ToastTone, number> = {
+  info: 4000,
+  success: 4000,
+  error: 8000,
+};
+
+const TONE_STYLES: Record<ToastTone, string> = {
+  info: "bg-gray-800 text-white",
+  success: "bg-green-700 text-white",
+  error: "bg-red-700 text-white",
+};
+
+const TONE_ICONS: Record<ToastTone, string> = {
+  info: "ℹ️",
+  success: "✅",
+  error: "⚠️",
+};
+
+export default function ToastProvider({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  const [toasts, setToasts] = useState<Toast[]>([]);
+  const nextId = useRef(1);
+
+  const dismiss = useCallback((id: number) => {
+    setToasts((current) => current.filter((t) => t.id !== id));
+  }, []);
+
+  const show = useCallback(
+    (tone: ToastTone, message: string, action?: ToastAction) => {
+      const id = nextId.current++;
+      setToasts((current) => [...current, { id, tone, message, action }]);
+      setTimeout(() => dismiss(id), DURATION_MS[tone]);
+    },
+    [dismiss]
+  );
+
+  return (
+    <ToastContext.Provider value={show}>
+      {children}
+      <div
+        role="status"
+        aria-live="polite"
+        className="fixed bottom-4 right-4 z-[60] flex flex-col gap-2 w-full max-w-sm"
+      >
+        {toasts.map((toast) => (
+          <div
+            key={toast.id}
+            className={`flex items-start gap-3 px-4 py-3 rounded-lg shadow-lg text-sm ${
+              TONE_STYLES[toast.tone]
+            }`}
+          >
+            <span className="flex-1 whitespace-pre-line">
+              {TONE_ICONS[toast.tone]} {toast.message}
+            </span>
+            {toast.action && (
+              <button
+                onClick={() => {
+                  dismiss(toast.id);
+                  toast.action?.onClick();
+                }}
+                className="font-semibold underline hover:no-underline"
+              >
+                {toast.action.label}
+              </button>
+            )}
+            <button
+              onClick={() => dismiss(toast.id)}
+              aria-label="Dismiss"
+              className="opacity-75 hover:opacity-100"
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+      </div>
+    </ToastContext.Provider>
+  );
+}
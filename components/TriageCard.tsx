@@ -0,0 +1,70 @@
+"use client";
+
+import { CONTACT_FIELDS, contactOf } from "@/lib/contact";
+import { splitProducts } from "@/lib/filters";
+import type { Announcement } from "@/lib/types";
+
+// The whole record at a glance, for reviewing one announcement at a time
+export default function TriageCard({
+  announcement,
+}: {
+  announcement: Announcement;
+}) {
+  const contact = contactOf(announcement);
+  const details: [string, string][] = [
+    ["Company", announcement.company_name],
+    ["Type", announcement.announcement_type],
+    ["Location", announcement.location],
+    ["Date", announcement.announcement_date],
+  ];
+
+  return (
+    <div>
+      <div className="flex justify-between items-start gap-4 mb-3">
+        <h2 className="text-2xl font-semibold text-gray-900">
+          {announcement.announcement_title}
+        </h2>
+        <span
+          className={`px-3 py-1 text-sm font-semibold rounded-full whitespace-nowrap ${
+            announcement.checked
+              ? "bg-green-100 text-green-800"
+              : "bg-orange-100 text-orange-800"
+          }`}
+        >
+          {announcement.checked ? "✓ Checked" : "Unchecked"}
+        </span>
+      </div>
+      <dl className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4 text-sm">
+        {details.map(([label, value]) => (
+          <div key={label}>
+            <dt className="text-xs text-gray-500 uppercase">{label}</dt>
+            <dd className="text-gray-900">{value || "—"}</dd>
+          </div>
+        ))}
+      </dl>
+      <div className="flex flex-wrap gap-1 mb-4">
+        {splitProducts(announcement.products).map((product) => (
+          <span
+            key={product}
+            className="px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-700"
+          >
+            {product}
+          </span>
+        ))}
+      </div>
+      <p className="text-sm text-gray-800 whitespace-pre-line mb-4 max-h-64 overflow-y-auto">
+        {announcement.description || "No description."}
+      </p>
+      <dl className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm bg-gray-50 rounded-lg p-3">
+        {CONTACT_FIELDS.map((field) => (
+          <div key={field.key}>
+            <dt className="text-xs text-gray-500 uppercase">{field.label}</dt>
+            <dd className="text-gray-900 break-words">
+              {contact[field.key] || "—"}
+            </dd>
+          </div>
+        ))}
+      </dl>
+    </div>
+  );
+}
@@ -0,0 +1,13 @@
+import { logActivity } from "./api";
+
+// Logs a change that already went through. The backend records who made it
+// from the session. A failure here only costs the log entry, so it is
+// reported to the console instead of to the user.
+export const recordActivity = (
+  id: number,
+  summary: string,
+  fields: string[] = []
+) =>
+  logActivity(id, { summary, fields }).catch((error) => {
+    console.error("Error recording activity:", error);
+  });
@@ -0,0 +1,90 @@
+import { localDateStamp, parseLocalDate, splitProducts } from "./filters";
+import type { Announcement } from "./types";
+
+export type Period = "day" | "week";
+
+export interface CountEntry {
+  // Tells apart entries that share a label, e.g. two members with the same
+  // company name; the label when absent
+  key?: string;
+  label: string;
+  count: number;
+}
+
+export interface PeriodBucket {
+  // First and last day of the bucket, yyyy-mm-dd
+  from: string;
+  to: string;
+  count: number;
+  checked: number;
+}
+
+// Calendar arithmetic rather than milliseconds, so days stay whole across
+// daylight saving changes
+const addDays = (date: Date, days: number) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+// Weeks start on Monday
+const periodStart = (date: Date, period: Period) =>
+  addDays(date, period === "week" ? -((date.getDay() + 6) % 7) : 0);
+
+const emptyBucket = (start: Date, period: Period): PeriodBucket => ({
+  from: localDateStamp(start),
+  to: localDateStamp(addDays(start, period === "week" ? 6 : 0)),
+  count: 0,
+  checked: 0,
+});
+
+// Announcements per day or week, with empty periods filled in so gaps show
+// on the chart. Records with an unreadable date are left out.
+export const countByPeriod = (
+  announcements: Announcement[],
+  period: Period
+): PeriodBucket[] => {
+  const buckets = new Map<number, PeriodBucket>();
+  for (const announcement of announcements) {
+    const date = parseLocalDate(announcement.announcement_date);
+    if (!date) continue;
+    const start = periodStart(date, period);
+    const bucket = buckets.get(start.getTime()) ?? emptyBucket(start, period);
+    bucket.count++;
+    if (announcement.checked) bucket.checked++;
+    buckets.set(start.getTime(), bucket);
+  }
+  if (buckets.size === 0) return [];
+
+  const times = [...buckets.keys()];
+  const last = Math.max(...times);
+  const step = period === "week" ? 7 : 1;
+  const filled: PeriodBucket[] = [];
+  for (
+    let cursor = new Date(Math.min(...times));
+    cursor.getTime() <= last;
+    cursor = addDays(cursor, step)
+  ) {
+    filled.push(buckets.get(cursor.getTime()) ?? emptyBucket(cursor, period));
+  }
+  return filled;
+};
+
+// Values by count, most frequent first. Empty values are left out.
+export const countValues = (values: string[]): CountEntry[] => {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    if (value) counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+  return [...counts.entries()]
+    .map(([label, count]) => ({ label, count }))
+    .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+};
+
+// Each product term counts once per announcement that lists it
+export const countProducts = (announcements: Announcement[]) =>
+  countValues(
+    announcements.flatMap((a) => [...new Set(splitProducts(a.products))])
+  );
+
+export const checkedShare = (checked: number, total: number) =>
+  total === 0 ? 0 : checked / total;
+
+export const formatPercent = (share: number) => `${Math.round(share * 100)}%`;
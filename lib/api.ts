@@ -0,0 +1,947 @@
+import { matchesFilters, sortAnnouncements } from "./filters";
+import type { AnnouncementFilters, FilterOptions, SortState } from "./filters";
+import { FALLBACK_ROLE, isRole } from "./permissions";
+import { checkedForStage, DEFAULT_STAGES, isStageColor } from "./pipeline";
+import type { PipelineStage } from "./pipeline";
+import { clearSession, getSessionToken, redirectToLogin } from "./session";
+import type {
+  Announcement,
+  ActivityEntry,
+  AnnouncementEvent,
+  AnnouncementNote,
+  ContactInfo,
+  CurrentUser,
+  RunChange,
+  ScrapeRun,
+  ScrapeRunDetail,
+  ScrapeSchedule,
+  ScrapeScheduleInput,
+  ScrapeStatus,
+  Stats,
+} from "./types";
+
+export const API_URL =
+  process.env.NEXT_PUBLIC_API_URL || "http://localhost:5001";
+
+const DEFAULT_TIMEOUT_MS = 15000;
+const RETRY_BASE_DELAY_MS = 500;
+
+// Thrown when the backend answers with a non-2xx status or can't be reached.
+// `status` is null for network failures and timeouts.
+export class ApiError extends Error {
+  status: number | null;
+  body: unknown;
+
+  constructor(message: string, status: number | null, body?: unknown) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.body = body;
+  }
+}
+
+// Thrown when a 2xx response doesn't match the shape we expect.
+export class ApiValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ApiValidationError";
+  }
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  // Number of extra attempts after the first one. Only network errors,
+  // timeouts and 5xx responses are retried.
+  retries?: number;
+}
+
+export const isAbortError = (error: unknown) =>
+  error instanceof DOMException && error.name === "AbortError";
+
+// The backend couldn't be reached or didn't answer in time, as opposed to
+// answering with an error
+export const isNetworkError = (error: unknown) =>
+  error instanceof ApiError && error.status === null;
+
+export const describeError = (error: unknown) => {
+  if (error instanceof ApiError || error instanceof ApiValidationError) {
+    return error.message;
+  }
+  if (error instanceof Error) return error.message;
+  return String(error);
+};
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException("Aborted", "AbortError"));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException("Aborted", "AbortError"));
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+const readBody = async (response: Response): Promise<unknown> => {
+  const text = await response.text();
+  if (text === "") return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+};
+
+const errorMessage = (response: Response, body: unknown) => {
+  if (body && typeof body === "object") {
+    const record = body as Record<string, unknown>;
+    if (typeof record.error === "string") return record.error;
+    if (typeof record.message === "string") return record.message;
+  }
+  return `Request failed with status ${response.status}`;
+};
+
+const attempt = async (
+  url: string,
+  init: RequestInit,
+  signal: AbortSignal | undefined,
+  timeoutMs: number
+): Promise<unknown> => {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener("abort", onAbort, { once: true });
+
+  try {
+    const response = await fetch(url, { ...init, signal: controller.signal });
+    const body = await readBody(response);
+    if (!response.ok) {
+      throw new ApiError(errorMessage(response, body), response.status, body);
+    }
+    return body;
+  } catch (error) {
+    if (error instanceof ApiError) throw error;
+    if (isAbortError(error) && !timedOut) throw error;
+    if (timedOut) {
+      throw new ApiError(`Request timed out after ${timeoutMs}ms`, null);
+    }
+    throw new ApiError(
+      `Could not reach the server (${describeError(error)})`,
+      null
+    );
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", onAbort);
+  }
+};
+
+const isRetryable = (error: unknown) =>
+  error instanceof ApiError && (error.status === null || error.status >= 500);
+
+export const request = async <T>(
+  path: string,
+  init: RequestInit,
+  parse: (data: unknown) => T,
+  options: RequestOptions = {}
+): Promise<T> => {
+  const { signal, timeoutMs = DEFAULT_TIMEOUT_MS, retries = 0 } = options;
+  const headers = new Headers(init.headers);
+  if (init.body !== undefined && !headers.has("Content-Type")) {
+    headers.set("Content-Type", "application/json");
+  }
+  const token = getSessionToken();
+  if (token && !headers.has("Authorization")) {
+    headers.set("Authorization", `Bearer ${token}`);
+  }
+
+  for (let attemptNumber = 0; ; attemptNumber++) {
+    try {
+      const body = await attempt(
+        `${API_URL}${path}`,
+        { ...init, headers },
+        signal,
+        timeoutMs
+      );
+      return parse(body);
+    } catch (error) {
+      // The session expired or was revoked: start over from the login page
+      if (token && error instanceof ApiError && error.status === 401) {
+        clearSession();
+        redirectToLogin();
+      }
+      if (attemptNumber >= retries || !isRetryable(error)) throw error;
+      await sleep(RETRY_BASE_DELAY_MS * 2 ** attemptNumber, signal);
+    }
+  }
+};
+
+// Runtime validators
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const expectNumber = (
+  record: Record<string, unknown>,
+  key: string,
+  context: string
+): number => {
+  const value = record[key];
+  if (typeof value !== "number" || Number.isNaN(value)) {
+    throw new ApiValidationError(`${context}: "${key}" should be a number`);
+  }
+  return value;
+};
+
+const optionalNumber = (
+  record: Record<string, unknown>,
+  key: string,
+  context: string
+): number | undefined => {
+  if (record[key] === null || record[key] === undefined) return undefined;
+  return expectNumber(record, key, context);
+};
+
+// Text columns come back as null when empty, so null is read as "".
+const expectText = (
+  record: Record<string, unknown>,
+  key: string,
+  context: string
+): string => {
+  const value = record[key];
+  if (value === null || value === undefined) return "";
+  if (typeof value !== "string") {
+    throw new ApiValidationError(`${context}: "${key}" should be a string`);
+  }
+  return value;
+};
+
+const optionalText = (
+  record: Record<string, unknown>,
+  key: string,
+  context: string
+): string | undefined => {
+  const value = record[key];
+  if (value === null || value === undefined) return undefined;
+  if (typeof value !== "string") {
+    throw new ApiValidationError(`${context}: "${key}" should be a string`);
+  }
+  return value;
+};
+
+export const parseAnnouncement = (data: unknown): Announcement => {
+  if (!isRecord(data)) {
+    throw new ApiValidationError("Announcement should be an object");
+  }
+  const context = `Announcement ${String(data.id ?? "?")}`;
+  const checked = expectNumber(data, "checked", context);
+  const status = optionalText(data, "status", context) || undefined;
+  return {
+    id: expectNumber(data, "id", context),
+    member_id: expectText(data, "member_id", context),
+    company_name: expectText(data, "company_name", context),
+    announcement_title: expectText(data, "announcement_title", context),
+    description: expectText(data, "description", context),
+    products: expectText(data, "products", context),
+    location: expectText(data, "location", context),
+    announcement_type: expectText(data, "announcement_type", context),
+    announcement_date: expectText(data, "announcement_date", context),
+    announcement_url: expectText(data, "announcement_url", context),
+    scraped_date: expectText(data, "scraped_date", context),
+    checked: status ? checkedForStage(status) : checked,
+    created_at: expectText(data, "created_at", context),
+    prenom: optionalText(data, "prenom", context),
+    adresse: optionalText(data, "adresse", context),
+    cod_postal: optionalText(data, "cod_postal", context),
+    ville: optionalText(data, "ville", context),
+    mail: optionalText(data, "mail", context),
+    tel: optionalText(data, "tel", context),
+    web_site: optionalText(data, "web_site", context),
+    ok: optionalText(data, "ok", context),
+    duplicate_of: optionalNumber(data, "duplicate_of", context),
+    status,
+    follow_up_date: optionalText(data, "follow_up_date", context) || undefined,
+  };
+};
+
+export const parseAnnouncements = (data: unknown): Announcement[] => {
+  if (!Array.isArray(data)) {
+    throw new ApiValidationError("Announcements response should be an array");
+  }
+  return data.map(parseAnnouncement);
+};
+
+const parseStringList = (value: unknown, context: string): string[] => {
+  if (!Array.isArray(value) || value.some((v) => typeof v !== "string")) {
+    throw new ApiValidationError(`${context} should be a list of strings`);
+  }
+  return value;
+};
+
+const parseFacets = (data: unknown): FilterOptions | undefined => {
+  if (data === undefined || data === null) return undefined;
+  if (!isRecord(data)) {
+    throw new ApiValidationError("Facets should be an object");
+  }
+  return {
+    types: parseStringList(data.types ?? [], "Facet types"),
+    locations: parseStringList(data.locations ?? [], "Facet locations"),
+    products: parseStringList(data.products ?? [], "Facet products"),
+  };
+};
+
+// A backend that supports server-side querying answers with a page object.
+// Older backends ignore the query parameters and return the full array, in
+// which case filtering, sorting and paging happen in the browser.
+export type AnnouncementQueryResult =
+  | {
+      mode: "server";
+      items: Announcement[];
+      total: number;
+      facets?: FilterOptions;
+    }
+  | { mode: "client"; items: Announcement[] };
+
+export const parseAnnouncementQueryResult = (
+  data: unknown
+): AnnouncementQueryResult => {
+  if (Array.isArray(data)) {
+    return { mode: "client", items: parseAnnouncements(data) };
+  }
+  if (!isRecord(data)) {
+    throw new ApiValidationError(
+      "Announcements response should be an array or a page object"
+    );
+  }
+  return {
+    mode: "server",
+    items: parseAnnouncements(data.items),
+    total: expectNumber(data, "total", "Announcements page"),
+    facets: parseFacets(data.facets),
+  };
+};
+
+const parseStageCounts = (value: unknown) => {
+  if (value === null || value === undefined) return undefined;
+  if (
+    !isRecord(value) ||
+    Object.values(value).some((count) => typeof count !== "number")
+  ) {
+    throw new ApiValidationError('Stats: "stages" should map ids to counts');
+  }
+  return value as Record<string, number>;
+};
+
+export const parseStats = (data: unknown): Stats => {
+  if (!isRecord(data)) {
+    throw new ApiValidationError("Stats response should be an object");
+  }
+  return {
+    total: expectNumber(data, "total", "Stats"),
+    checked: expectNumber(data, "checked", "Stats"),
+    unchecked: expectNumber(data, "unchecked", "Stats"),
+    today: expectNumber(data, "today", "Stats"),
+    stages: parseStageCounts(data.stages),
+  };
+};
+
+export const parseScrapeStatus = (data: unknown): ScrapeStatus => {
+  if (!isRecord(data) || typeof data.running !== "boolean") {
+    throw new ApiValidationError(
+      'Scrape status should be an object with a boolean "running"'
+    );
+  }
+  const context = "Scrape status";
+  return {
+    running: data.running,
+    message: expectText(data, "message", context),
+    pages_visited: optionalNumber(data, "pages_visited", context),
+    announcements_found: optionalNumber(data, "announcements_found", context),
+    new_count: optionalNumber(data, "new_count", context),
+    duplicate_count: optionalNumber(data, "duplicate_count", context),
+    errors:
+      data.errors === undefined || data.errors === null
+        ? undefined
+        : parseStringList(data.errors, "Scrape errors"),
+    cancelled: typeof data.cancelled === "boolean" ? data.cancelled : undefined,
+    started_at: optionalText(data, "started_at", context),
+    finished_at: optionalText(data, "finished_at", context),
+  };
+};
+
+const expectOneOf = <T extends string>(
+  record: Record<string, unknown>,
+  key: string,
+  allowed: readonly T[],
+  context: string
+): T => {
+  const value = record[key];
+  if (!allowed.includes(value as T)) {
+    throw new ApiValidationError(
+      `${context}: "${key}" should be one of ${allowed.join(", ")}`
+    );
+  }
+  return value as T;
+};
+
+const RUN_TRIGGERS = ["manual", "scheduled"] as const;
+const RUN_STATUSES = ["running", "completed", "failed", "cancelled"] as const;
+
+export const parseScrapeRun = (data: unknown): ScrapeRun => {
+  if (!isRecord(data)) {
+    throw new ApiValidationError("Scrape run should be an object");
+  }
+  const context = `Scrape run ${String(data.id ?? "?")}`;
+  return {
+    id: expectNumber(data, "id", context),
+    started_at: expectText(data, "started_at", context),
+    finished_at: optionalText(data, "finished_at", context),
+    trigger: expectOneOf(data, "trigger", RUN_TRIGGERS, context),
+    status: expectOneOf(data, "status", RUN_STATUSES, context),
+    new_count: expectNumber(data, "new_count", context),
+    updated_count: expectNumber(data, "updated_count", context),
+    unchanged_count: expectNumber(data, "unchanged_count", context),
+    errors: parseStringList(data.errors ?? [], `${context} errors`),
+  };
+};
+
+export const parseScrapeRuns = (data: unknown): ScrapeRun[] => {
+  if (!Array.isArray(data)) {
+    throw new ApiValidationError("Scrape runs response should be an array");
+  }
+  return data.map(parseScrapeRun);
+};
+
+const parseRunChange = (data: unknown): RunChange => {
+  if (!isRecord(data)) {
+    throw new ApiValidationError("Run change should be an object");
+  }
+  const context = "Run change";
+  return {
+    announcement_id: expectNumber(data, "announcement_id", context),
+    change: expectOneOf(data, "change", ["new", "updated"] as const, context),
+    changed_fields: parseStringList(
+      data.changed_fields ?? [],
+      `${context} fields`
+    ),
+  };
+};
+
+export const parseScrapeRunDetail = (data: unknown): ScrapeRunDetail => {
+  const run = parseScrapeRun(data);
+  const changes = (data as Record<string, unknown>).changes;
+  if (!Array.isArray(changes)) {
+    throw new ApiValidationError(`Scrape run ${run.id}: missing "changes"`);
+  }
+  return { ...run, changes: changes.map(parseRunChange) };
+};
+
+export const parseScrapeSchedule = (data: unknown): ScrapeSchedule => {
+  if (!isRecord(data)) {
+    throw new ApiValidationError("Schedule should be an object");
+  }
+  const context = `Schedule ${String(data.id ?? "?")}`;
+  if (typeof data.paused !== "boolean") {
+    throw new ApiValidationError(`${context}: "paused" should be a boolean`);
+  }
+  return {
+    id: expectNumber(data, "id", context),
+    name: expectText(data, "name", context),
+    cron: expectText(data, "cron", context),
+    announcement_types: parseStringList(
+      data.announcement_types ?? [],
+      `${context} types`
+    ),
+    categories: parseStringList(data.categories ?? [], `${context} categories`),
+    paused: data.paused,
+    next_run_at: optionalText(data, "next_run_at", context),
+    last_run_id: optionalNumber(data, "last_run_id", context),
+    last_run_status:
+      data.last_run_status === undefined || data.last_run_status === null
+        ? undefined
+        : expectOneOf(data, "last_run_status", RUN_STATUSES, context),
+    last_run_at: optionalText(data, "last_run_at", context),
+  };
+};
+
+export const parseScrapeSchedules = (data: unknown): ScrapeSchedule[] => {
+  if (!Array.isArray(data)) {
+    throw new ApiValidationError("Schedules response should be an array");
+  }
+  return data.map(parseScrapeSchedule);
+};
+
+export const parseCurrentUser = (data: unknown): CurrentUser => {
+  if (!isRecord(data) || !isRole(data.role)) {
+    throw new ApiValidationError(
+      'Current user should have a role of "viewer", "editor" or "admin"'
+    );
+  }
+  return { name: expectText(data, "name", "Current user"), role: data.role };
+};
+
+export interface LoginResult {
+  token: string;
+  user: CurrentUser;
+  // Seconds until the token expires, when the backend says
+  expires_in?: number;
+}
+
+export const parseLoginResult = (data: unknown): LoginResult => {
+  if (!isRecord(data)) {
+    throw new ApiValidationError("Login response should be an object");
+  }
+  const token = expectText(data, "token", "Login response");
+  if (!token) throw new ApiValidationError("Login response has no token");
+  return {
+    token,
+    user: parseCurrentUser(data.user),
+    expires_in: optionalNumber(data, "expires_in", "Login response"),
+  };
+};
+
+export const parseStreamTicket = (data: unknown): string => {
+  if (!isRecord(data)) {
+    throw new ApiValidationError("Stream ticket response should be an object");
+  }
+  const ticket = expectText(data, "ticket", "Stream ticket response");
+  if (!ticket) {
+    throw new ApiValidationError("Stream ticket response has no ticket");
+  }
+  return ticket;
+};
+
+const EVENT_KINDS = ["sighting", "edit"] as const;
+
+export const parseAnnouncementEvent = (data: unknown): AnnouncementEvent => {
+  if (!isRecord(data)) {
+    throw new ApiValidationError("Announcement event should be an object");
+  }
+  const context = "Announcement event";
+  return {
+    at: expectText(data, "at", context),
+    kind: expectOneOf(data, "kind", EVENT_KINDS, context),
+    run_id: optionalNumber(data, "run_id", context),
+    fields: parseStringList(data.fields ?? [], `${context} fields`),
+    summary: optionalText(data, "summary", context),
+    user: optionalText(data, "user", context),
+  };
+};
+
+export const parseAnnouncementEvents = (data: unknown): AnnouncementEvent[] => {
+  if (!Array.isArray(data)) {
+    throw new ApiValidationError("Announcement history should be an array");
+  }
+  return data.map(parseAnnouncementEvent);
+};
+
+export const parsePipelineStages = (data: unknown): PipelineStage[] => {
+  if (!Array.isArray(data)) {
+    throw new ApiValidationError("Pipeline stages should be an array");
+  }
+  return data.map((stage) => {
+    if (!isRecord(stage)) {
+      throw new ApiValidationError("Pipeline stage should be an object");
+    }
+    const context = `Pipeline stage ${String(stage.id ?? "?")}`;
+    return {
+      id: expectText(stage, "id", context),
+      label: expectText(stage, "label", context),
+      color: isStageColor(stage.color) ? stage.color : "gray",
+    };
+  });
+};
+
+export const parseAnnouncementNote = (data: unknown): AnnouncementNote => {
+  if (!isRecord(data)) {
+    throw new ApiValidationError("Note should be an object");
+  }
+  const context = `Note ${String(data.id ?? "?")}`;
+  return {
+    id: expectNumber(data, "id", context),
+    text: expectText(data, "text", context),
+    created_at: expectText(data, "created_at", context),
+    author: optionalText(data, "author", context),
+  };
+};
+
+export const parseAnnouncementNotes = (data: unknown): AnnouncementNote[] => {
+  if (!Array.isArray(data)) {
+    throw new ApiValidationError("Notes response should be an array");
+  }
+  return data.map(parseAnnouncementNote);
+};
+
+const ignoreBody = () => undefined;
+
+// Endpoints
+
+export const getAnnouncements = (options: RequestOptions = {}) =>
+  request("/api/announcements", { method: "GET" }, parseAnnouncements, {
+    retries: 2,
+    ...options,
+  });
+
+export interface AnnouncementQuery {
+  filters: AnnouncementFilters;
+  sort: SortState | null;
+  page: number;
+  pageSize: number;
+}
+
+export const buildAnnouncementParams = ({
+  filters,
+  sort,
+  page,
+  pageSize,
+}: AnnouncementQuery) => {
+  const params = new URLSearchParams();
+  if (filters.search) params.set("search", filters.search);
+  if (filters.type !== "all") params.set("type", filters.type);
+  if (filters.location !== "all") params.set("location", filters.location);
+  if (filters.product !== "all") params.set("product", filters.product);
+  if (filters.status !== "all") params.set("status", filters.status);
+  if (filters.stage !== "all") params.set("stage", filters.stage);
+  if (filters.dateFrom) params.set("date_from", filters.dateFrom);
+  if (filters.dateTo) params.set("date_to", filters.dateTo);
+  if (filters.company) params.set("company", filters.company);
+  if (filters.member) params.set("member_id", filters.member);
+  if (filters.run) params.set("run_id", filters.run);
+  if (filters.followUp) params.set("follow_up", filters.followUp);
+  if (sort) {
+    params.set("sort", sort.field);
+    params.set("order", sort.direction);
+  }
+  params.set("page", String(page));
+  params.set("page_size", String(pageSize));
+  return params;
+};
+
+export const queryAnnouncements = (
+  query: AnnouncementQuery,
+  options: RequestOptions = {}
+) =>
+  request(
+    `/api/announcements?${buildAnnouncementParams(query)}`,
+    { method: "GET" },
+    parseAnnouncementQueryResult,
+    { retries: 2, ...options }
+  );
+
+const EXPORT_PAGE_SIZE = 500;
+
+// Loads every announcement matching the query, across all pages. Used by
+// exports, which need the whole filtered set rather than the visible page.
+export const getAllMatchingAnnouncements = async (
+  filters: AnnouncementFilters,
+  sort: SortState | null,
+  options: RequestOptions = {}
+): Promise<AnnouncementQueryResult> => {
+  const items: Announcement[] = [];
+  for (let page = 1; ; page++) {
+    const result = await queryAnnouncements(
+      { filters, sort, page, pageSize: EXPORT_PAGE_SIZE },
+      options
+    );
+    if (result.mode === "client") return result;
+    items.push(...result.items);
+    if (result.items.length === 0 || items.length >= result.total) {
+      return { mode: "server", items, total: result.total };
+    }
+  }
+};
+
+// Every announcement matching the filters, in order, whichever way the
+// backend answers. Backends returning the full list leave the filtering and
+// sorting to us.
+export const getFilteredAnnouncements = async (
+  filters: AnnouncementFilters,
+  sort: SortState | null,
+  options: RequestOptions = {}
+): Promise<Announcement[]> => {
+  const result = await getAllMatchingAnnouncements(filters, sort, options);
+  if (result.mode === "server") return result.items;
+  const run = filters.run
+    ? await getScrapeRun(Number(filters.run), options)
+    : null;
+  const runIds = run
+    ? new Set(run.changes.map((c) => c.announcement_id))
+    : null;
+  return sortAnnouncements(
+    result.items.filter((a) => matchesFilters(a, filters, runIds)),
+    sort
+  );
+};
+
+export const getAnnouncement = (id: number, options: RequestOptions = {}) =>
+  request(`/api/announcements/${id}`, { method: "GET" }, parseAnnouncement, {
+    retries: 2,
+    ...options,
+  });
+
+// Backends that don't keep a history answer 404; the caller then falls back
+// to what the announcement itself records.
+export const getAnnouncementHistory = async (
+  id: number,
+  options: RequestOptions = {}
+): Promise<AnnouncementEvent[] | null> => {
+  try {
+    return await request(
+      `/api/announcements/${id}/history`,
+      { method: "GET" },
+      parseAnnouncementEvents,
+      { retries: 2, ...options }
+    );
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 404) return null;
+    throw error;
+  }
+};
+
+export const getStats = (options: RequestOptions = {}) =>
+  request("/api/stats", { method: "GET" }, parseStats, {
+    retries: 2,
+    ...options,
+  });
+
+export const updateAnnouncementContact = (
+  id: number,
+  contact: ContactInfo,
+  options: RequestOptions = {}
+) =>
+  request(
+    `/api/announcements/${id}/contact`,
+    { method: "PUT", body: JSON.stringify(contact) },
+    ignoreBody,
+    options
+  );
+
+export const deleteAnnouncement = (id: number, options: RequestOptions = {}) =>
+  request(
+    `/api/announcements/${id}`,
+    { method: "DELETE" },
+    ignoreBody,
+    options
+  );
+
+// Marks an announcement as a duplicate of the surviving record. The backend
+// leaves duplicates out of announcement listings and stats.
+export const markAnnouncementDuplicate = (
+  id: number,
+  duplicateOf: number,
+  options: RequestOptions = {}
+) =>
+  request(
+    `/api/announcements/${id}/duplicate`,
+    { method: "PUT", body: JSON.stringify({ duplicate_of: duplicateOf }) },
+    ignoreBody,
+    options
+  );
+
+// Saves the stage together with the `checked` it implies, so the two can't
+// drift apart on the backend
+export const setAnnouncementStatus = (
+  id: number,
+  status: string,
+  options: RequestOptions = {}
+) =>
+  request(
+    `/api/announcements/${id}/status`,
+    {
+      method: "PUT",
+      body: JSON.stringify({ status, checked: checkedForStage(status) }),
+    },
+    ignoreBody,
+    options
+  );
+
+export const setAnnouncementFollowUp = (
+  id: number,
+  followUpDate: string | null,
+  options: RequestOptions = {}
+) =>
+  request(
+    `/api/announcements/${id}/follow-up`,
+    { method: "PUT", body: JSON.stringify({ follow_up_date: followUpDate }) },
+    ignoreBody,
+    options
+  );
+
+export const getAnnouncementNotes = (
+  id: number,
+  options: RequestOptions = {}
+) =>
+  request(
+    `/api/announcements/${id}/notes`,
+    { method: "GET" },
+    parseAnnouncementNotes,
+    { retries: 2, ...options }
+  );
+
+export const addAnnouncementNote = (
+  id: number,
+  text: string,
+  options: RequestOptions = {}
+) =>
+  request(
+    `/api/announcements/${id}/notes`,
+    { method: "POST", body: JSON.stringify({ text }) },
+    parseAnnouncementNote,
+    options
+  );
+
+// Appends to the announcement's activity log, which the history endpoint
+// returns as edit events.
+export const logActivity = (
+  id: number,
+  entry: ActivityEntry,
+  options: RequestOptions = {}
+) =>
+  request(
+    `/api/announcements/${id}/activity`,
+    { method: "POST", body: JSON.stringify(entry) },
+    ignoreBody,
+    options
+  );
+
+export const startScrape = (options: RequestOptions = {}) =>
+  request("/api/scrape", { method: "POST" }, ignoreBody, options);
+
+// Asks the scraper to stop. The answer is the run's status at that point,
+// which may still be running while the scraper winds down.
+export const cancelScrape = (options: RequestOptions = {}) =>
+  request("/api/scrape/cancel", { method: "POST" }, parseScrapeStatus, options);
+
+export const getScrapeStatus = (options: RequestOptions = {}) =>
+  request("/api/scrape/status", { method: "GET" }, parseScrapeStatus, {
+    retries: 1,
+    ...options,
+  });
+
+// A short-lived, single-use ticket for the event stream. EventSource can't
+// send headers, and the session token must not end up in URLs.
+export const getScrapeStreamTicket = (options: RequestOptions = {}) =>
+  request(
+    "/api/scrape/events/ticket",
+    { method: "POST" },
+    parseStreamTicket,
+    options
+  );
+
+export const getScrapeRuns = (options: RequestOptions = {}) =>
+  request("/api/scrape/runs", { method: "GET" }, parseScrapeRuns, {
+    retries: 2,
+    ...options,
+  });
+
+export const getScrapeRun = (id: number, options: RequestOptions = {}) =>
+  request(`/api/scrape/runs/${id}`, { method: "GET" }, parseScrapeRunDetail, {
+    retries: 2,
+    ...options,
+  });
+
+// Backends without user accounts don't expose /api/me; everyone then gets
+// the fallback role.
+export const getCurrentUser = async (
+  options: RequestOptions = {}
+): Promise<CurrentUser> => {
+  try {
+    return await request("/api/me", { method: "GET" }, parseCurrentUser, {
+      retries: 1,
+      ...options,
+    });
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 404) {
+      return { name: "", role: FALLBACK_ROLE };
+    }
+    throw error;
+  }
+};
+
+export const login = (
+  username: string,
+  password: string,
+  options: RequestOptions = {}
+) =>
+  request(
+    "/api/auth/login",
+    { method: "POST", body: JSON.stringify({ username, password }) },
+    parseLoginResult,
+    options
+  );
+
+export const logout = (options: RequestOptions = {}) =>
+  request("/api/auth/logout", { method: "POST" }, ignoreBody, options);
+
+export const getSchedules = (options: RequestOptions = {}) =>
+  request("/api/schedules", { method: "GET" }, parseScrapeSchedules, {
+    retries: 2,
+    ...options,
+  });
+
+export const createSchedule = (
+  schedule: ScrapeScheduleInput,
+  options: RequestOptions = {}
+) =>
+  request(
+    "/api/schedules",
+    { method: "POST", body: JSON.stringify(schedule) },
+    parseScrapeSchedule,
+    options
+  );
+
+export const updateSchedule = (
+  id: number,
+  changes: Partial<ScrapeScheduleInput>,
+  options: RequestOptions = {}
+) =>
+  request(
+    `/api/schedules/${id}`,
+    { method: "PUT", body: JSON.stringify(changes) },
+    parseScrapeSchedule,
+    options
+  );
+
+export const deleteSchedule = (id: number, options: RequestOptions = {}) =>
+  request(`/api/schedules/${id}`, { method: "DELETE" }, ignoreBody, options);
+
+// Backends without a configurable pipeline don't expose it; everyone then
+// works with the default stages.
+export const getPipelineStages = async (
+  options: RequestOptions = {}
+): Promise<PipelineStage[]> => {
+  try {
+    return await request(
+      "/api/pipeline/stages",
+      { method: "GET" },
+      parsePipelineStages,
+      { retries: 2, ...options }
+    );
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 404) {
+      return DEFAULT_STAGES;
+    }
+    throw error;
+  }
+};
+
+export const savePipelineStages = (
+  stages: PipelineStage[],
+  options: RequestOptions = {}
+) =>
+  request(
+    "/api/pipeline/stages",
+    { method: "PUT", body: JSON.stringify(stages) },
+    parsePipelineStages,
+    options
+  );
@@ -0,0 +1,77 @@
+import { recordActivity } from "./activity";
+import { describeError, updateAnnouncementContact } from "./api";
+import { changedContactFields, contactOf } from "./contact";
+import type { Announcement, ContactInfo } from "./types";
+
+export interface BulkProgress {
+  label: string;
+  done: number;
+  total: number;
+  failed: number;
+}
+
+// Runs `action` on each item one after another, so a large batch doesn't
+// flood the backend, and reports progress after every item. A failure is
+// counted and logged but doesn't stop the rest of the batch. Resolves with
+// the items that succeeded.
+export const runInSequence = async <T>(
+  items: T[],
+  action: (item: T) => Promise<unknown>,
+  onProgress: (done: number, failed: number) => void
+): Promise<T[]> => {
+  const succeeded: T[] = [];
+  let failed = 0;
+  for (const [index, item] of items.entries()) {
+    try {
+      await action(item);
+      succeeded.push(item);
+    } catch (error) {
+      console.error("Bulk action failed for item:", item, error);
+      failed++;
+    }
+    onProgress(index + 1, failed);
+  }
+  return succeeded;
+};
+
+export interface ContactUpdate {
+  announcement: Announcement;
+  contact: ContactInfo;
+}
+
+export interface ContactUpdateFailure {
+  announcement: Announcement;
+  message: string;
+}
+
+// Saves new contacts one announcement at a time and logs each under
+// `summary`. Resolves with the contacts that went through, by announcement
+// id, and why the others failed.
+export const saveContactUpdates = async (
+  updates: ContactUpdate[],
+  summary: string,
+  onProgress: (done: number, failed: number) => void
+) => {
+  const failures: ContactUpdateFailure[] = [];
+  const succeeded = await runInSequence(
+    updates,
+    async ({ announcement, contact }) => {
+      try {
+        await updateAnnouncementContact(announcement.id, contact);
+      } catch (error) {
+        failures.push({ announcement, message: describeError(error) });
+        throw error;
+      }
+      recordActivity(
+        announcement.id,
+        summary,
+        changedContactFields(contactOf(announcement), contact)
+      );
+    },
+    onProgress
+  );
+  return {
+    applied: new Map(succeeded.map((u) => [u.announcement.id, u.contact])),
+    failures,
+  };
+};
@@ -0,0 +1,80 @@
+import { COMPANY_CONTACT_FIELDS, contactOf, EMPTY_CONTACT } from "./contact";
+import type { ContactField } from "./contact";
+import { sortAnnouncements } from "./filters";
+import { normalizeText } from "./text";
+import type { Announcement, ContactInfo } from "./types";
+
+export interface Company {
+  key: string;
+  member_id: string;
+  company_name: string;
+  // Newest first
+  announcements: Announcement[];
+  // Most recent non-empty value of each shared field across the
+  // announcements; "ok" is always empty
+  contact: ContactInfo;
+  // Fields whose announcements disagree on a non-empty value
+  conflictingFields: ContactField[];
+}
+
+// Announcements from the same member belong together even when the company
+// name was spelled differently; without a member ID the name decides. Empty
+// when the record names no company at all.
+export const companyKey = (announcement: Announcement) => {
+  if (announcement.member_id) return `member:${announcement.member_id}`;
+  const name = normalizeText(announcement.company_name);
+  return name ? `name:${name}` : "";
+};
+
+const summarizeContact = (announcements: Announcement[]) => {
+  const contact: ContactInfo = { ...EMPTY_CONTACT };
+  const conflictingFields: ContactField[] = [];
+  for (const { key } of COMPANY_CONTACT_FIELDS) {
+    const values = new Set(
+      announcements.map((a) => contactOf(a)[key]).filter((v) => v !== "")
+    );
+    contact[key] = values.values().next().value ?? "";
+    if (values.size > 1) conflictingFields.push(key);
+  }
+  return { contact, conflictingFields };
+};
+
+export const groupCompanies = (announcements: Announcement[]): Company[] => {
+  const groups = new Map<string, Announcement[]>();
+  for (const announcement of announcements) {
+    const key = companyKey(announcement);
+    groups.set(key, [...(groups.get(key) ?? []), announcement]);
+  }
+
+  return [...groups.entries()]
+    .map(([key, group]) => {
+      const sorted = sortAnnouncements(group, {
+        field: "announcement_date",
+        direction: "desc",
+      });
+      return {
+        key,
+        member_id: sorted.find((a) => a.member_id)?.member_id ?? "",
+        company_name: sorted.find((a) => a.company_name)?.company_name ?? "",
+        announcements: sorted,
+        ...summarizeContact(sorted),
+      };
+    })
+    .sort(
+      (a, b) =>
+        b.announcements.length - a.announcements.length ||
+        a.company_name.localeCompare(b.company_name)
+    );
+};
+
+export const matchesCompanySearch = (company: Company, search: string) => {
+  const needle = normalizeText(search);
+  if (!needle) return true;
+  return [
+    company.company_name,
+    company.member_id,
+    company.contact.ville,
+    company.contact.mail,
+    company.contact.tel,
+  ].some((value) => normalizeText(value).includes(needle));
+};
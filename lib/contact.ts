@@ -0,0 +1,60 @@
+import type { Announcement, ContactInfo } from "./types";
+
+export type ContactField = keyof ContactInfo;
+
+export const CONTACT_FIELDS: { key: ContactField; label: string }[] = [
+  { key: "prenom", label: "Prénom" },
+  { key: "adresse", label: "Adresse" },
+  { key: "cod_postal", label: "Code Postal" },
+  { key: "ville", label: "Ville" },
+  { key: "mail", label: "Mail" },
+  { key: "tel", label: "Téléphone" },
+  { key: "web_site", label: "Web Site" },
+  { key: "ok", label: "OK" },
+];
+
+// A company's contact is shared by its announcements; "ok" is a note on one
+// offer and never is.
+export const COMPANY_CONTACT_FIELDS = CONTACT_FIELDS.filter(
+  (f) => f.key !== "ok"
+);
+
+export const EMPTY_CONTACT: ContactInfo = {
+  prenom: "",
+  adresse: "",
+  cod_postal: "",
+  ville: "",
+  mail: "",
+  tel: "",
+  web_site: "",
+  ok: "",
+};
+
+export const contactOf = (announcement: Announcement): ContactInfo => ({
+  prenom: announcement.prenom || "",
+  adresse: announcement.adresse || "",
+  cod_postal: announcement.cod_postal || "",
+  ville: announcement.ville || "",
+  mail: announcement.mail || "",
+  tel: announcement.tel || "",
+  web_site: announcement.web_site || "",
+  ok: announcement.ok || "",
+});
+
+// Only the fields whose value changed
+export const contactChanges = (
+  before: ContactInfo,
+  after: ContactInfo
+): Partial<ContactInfo> =>
+  Object.fromEntries(
+    CONTACT_FIELDS.filter((f) => before[f.key] !== after[f.key]).map((f) => [
+      f.key,
+      after[f.key],
+    ])
+  );
+
+// Labels of the fields that differ, for the activity log
+export const changedContactFields = (before: ContactInfo, after: ContactInfo) =>
+  CONTACT_FIELDS.filter((f) => before[f.key] !== after[f.key]).map(
+    (f) => f.label
+  );
@@ -0,0 +1,159 @@
+import { contactOf } from "./contact";
+import type { ContactField } from "./contact";
+import { checkContactField, normalizePhone } from "./contactFormat";
+import {
+  findPlace,
+  postalCodeMatchesWilaya,
+  wilayaForPostalCode,
+} from "./gazetteer";
+import type { Announcement } from "./types";
+
+// Contact details found in an announcement's own text, offered for fields
+// that are still empty.
+export interface ContactSuggestion {
+  announcementId: number;
+  field: ContactField;
+  value: string;
+  // Where the value was found; a list of numbers can come from both
+  source: "title" | "description" | "title and description";
+}
+
+const EMAIL = /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/gi;
+const URL_LIKE =
+  /\b(?:https?:\/\/|www\.)[^\s<>"'()]+|\b[a-z0-9-]+(?:\.[a-z0-9-]+)*\.(?:dz|com|net|org|fr)\b(?:\/[^\s<>"'()]*)?/gi;
+// International numbers, or national ones with their trunk 0. Each allows
+// separators between digits but stops at the length of one number, so
+// numbers listed one after another come out separately.
+const PHONE_LIKE =
+  /(?:\+|\b00)\d(?:[\s().-]{0,2}\d){7,14}\b|\b0\d(?:[\s.-]?\d){7,8}\b/g;
+const POSTAL_CODE = /\b\d{5}\b/g;
+const POSTAL_KEYWORD = /(?:code postal|c\.?\s?p\.?|b\.?\s?p\.?)\s*:?\s*$/i;
+// How far after a postal code to look for the place it belongs to
+const PLACE_LOOKAHEAD = 30;
+
+const trimPunctuation = (value: string) => value.replace(/[.,;:!?]+$/, "");
+
+const hostOf = (url: string) => {
+  try {
+    return new URL(/^https?:\/\//i.test(url) ? url : `https://${url}`).hostname
+      .replace(/^www\./, "")
+      .toLowerCase();
+  } catch {
+    return "";
+  }
+};
+
+const findEmails = (text: string) =>
+  (text.match(EMAIL) ?? []).map((email) => email.toLowerCase());
+
+// Links back to the listing site itself aren't the company's web site
+const findWebsites = (text: string, listingHost: string) =>
+  (text.replace(EMAIL, " ").match(URL_LIKE) ?? [])
+    .map(trimPunctuation)
+    .filter((url) => {
+      const host = hostOf(url);
+      return host !== "" && host !== listingHost;
+    });
+
+// Requiring a prefix keeps dates and quantities from passing for numbers
+const findPhones = (text: string) =>
+  (text.match(PHONE_LIKE) ?? [])
+    .map((candidate) => normalizePhone(candidate))
+    .filter((phone): phone is string => phone !== null);
+
+// Five-digit numbers are only postal codes after "Code postal", "CP" or "BP",
+// or when followed by a place in the matching wilaya.
+const findPostalCodes = (text: string) =>
+  [...text.matchAll(POSTAL_CODE)]
+    .filter((match) => {
+      const code = match[0];
+      const wilaya = wilayaForPostalCode(code);
+      if (!wilaya) return false;
+      const before = text.slice(0, match.index);
+      if (POSTAL_KEYWORD.test(before)) return true;
+      const after = text.slice(
+        match.index + code.length,
+        match.index + code.length + PLACE_LOOKAHEAD
+      );
+      const place = findPlace(after);
+      return !!place && postalCodeMatchesWilaya(code, place.wilaya);
+    })
+    .map((match) => match[0]);
+
+const unique = (values: string[]) => [...new Set(values)];
+
+export const extractContactSuggestions = (
+  announcement: Announcement
+): ContactSuggestion[] => {
+  const contact = contactOf(announcement);
+  const listingHost = hostOf(announcement.announcement_url);
+  const suggestions: ContactSuggestion[] = [];
+
+  const suggest = (
+    field: ContactField,
+    find: (text: string) => string[],
+    // The tel field holds several numbers; the others take the first match
+    joinAll = false
+  ) => {
+    if (contact[field].trim() !== "") return;
+    const title = new Set(find(announcement.announcement_title));
+    const found = unique([...title, ...find(announcement.description)]);
+    if (found.length === 0) return;
+    const used = joinAll ? found : [found[0]];
+    // Suggestions go through the same checks as typed values
+    const check = checkContactField(field, {
+      ...contact,
+      [field]: used.join(", "),
+    });
+    if (check.error) return;
+    // Values in both texts count as found in the title, which comes first
+    const inTitle = used.some((value) => title.has(value));
+    const inDescription = used.some((value) => !title.has(value));
+    suggestions.push({
+      announcementId: announcement.id,
+      field,
+      value: check.value,
+      source:
+        inTitle && inDescription
+          ? "title and description"
+          : inTitle
+          ? "title"
+          : "description",
+    });
+  };
+
+  suggest("tel", findPhones, true);
+  suggest("mail", findEmails);
+  suggest("web_site", (text) => findWebsites(text, listingHost));
+  suggest("cod_postal", findPostalCodes);
+  return suggestions;
+};
+
+export const suggestionKey = (suggestion: ContactSuggestion) =>
+  `${suggestion.announcementId}:${suggestion.field}:${suggestion.value}`;
+
+// Rejected suggestions are remembered in the browser so they don't come back
+const REJECTED_KEY = "espaceagro.rejectedSuggestions";
+
+export const loadRejectedSuggestions = (): Set<string> => {
+  try {
+    const stored = window.localStorage.getItem(REJECTED_KEY);
+    const parsed = stored ? JSON.parse(stored) : [];
+    return new Set(
+      Array.isArray(parsed)
+        ? parsed.filter((key): key is string => typeof key === "string")
+        : []
+    );
+  } catch (error) {
+    console.error("Error loading rejected suggestions:", error);
+    return new Set();
+  }
+};
+
+export const storeRejectedSuggestions = (keys: Set<string>) => {
+  try {
+    window.localStorage.setItem(REJECTED_KEY, JSON.stringify([...keys]));
+  } catch (error) {
+    console.error("Error storing rejected suggestions:", error);
+  }
+};
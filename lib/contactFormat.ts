@@ -0,0 +1,169 @@
+import { CONTACT_FIELDS, contactOf } from "./contact";
+import type { ContactField } from "./contact";
+import {
+  findPlace,
+  postalCodeMatchesWilaya,
+  wilayaForPostalCode,
+} from "./gazetteer";
+import type { Announcement, ContactInfo } from "./types";
+
+// Canonical formats for contact fields: E.164 phones, five-digit postal codes
+// in the ville's wilaya, lowercased emails and URLs with a scheme. Empty
+// fields are always valid.
+
+export interface FieldCheck {
+  value: string;
+  error?: string;
+}
+
+export type ContactErrors = Partial<Record<ContactField, string>>;
+
+const ALGERIA_PREFIX = "+213";
+
+// Algerian numbers without the trunk 0: mobiles are 5, 6 or 7 and eight more
+// digits, landlines 2, 3 or 4 and seven more.
+const ALGERIAN_NUMBER = /^([567]\d{8}|[234]\d{7})$/;
+
+// "0555 12 34 56", "+213555123456", "555-123456" and "00213 (0)555123456"
+// all become "+213555123456". Returns null for anything else.
+export const normalizePhone = (value: string): string | null => {
+  const trimmed = value.trim();
+  if (!/^\+?[\d\s().-]+$/.test(trimmed)) return null;
+  let digits = trimmed.replace(/\D/g, "");
+  const international = trimmed.startsWith("+") || digits.startsWith("00");
+  digits = digits.replace(/^00/, "");
+
+  if (international && !digits.startsWith("213")) {
+    return digits.length >= 8 && digits.length <= 15 ? `+${digits}` : null;
+  }
+  if (digits.startsWith("213") && digits.length > 10) digits = digits.slice(3);
+  digits = digits.replace(/^0/, "");
+  return ALGERIAN_NUMBER.test(digits) ? `${ALGERIA_PREFIX}${digits}` : null;
+};
+
+// The tel field often holds several numbers, e.g. "0555123456 / 021234567".
+// Empty segments, as in "0555123456 // 021234567", are skipped.
+const checkPhones = (value: string): FieldCheck => {
+  const parts = value
+    .split(/[,;/]/)
+    .map((part) => part.trim())
+    .filter(Boolean);
+  const normalized = parts.map(normalizePhone);
+  const invalid = parts.filter((_, i) => !normalized[i]);
+  if (invalid.length > 0) {
+    return {
+      value,
+      error: `Not a phone number: ${invalid.join(", ")}`,
+    };
+  }
+  return { value: normalized.join(", ") };
+};
+
+const checkPostalCode = (value: string, ville: string): FieldCheck => {
+  const code = value.replace(/\s/g, "");
+  if (!/^\d{5}$/.test(code)) {
+    return { value, error: "Postal codes have 5 digits" };
+  }
+  const wilaya = wilayaForPostalCode(code);
+  if (!wilaya) {
+    return { value, error: `No wilaya is numbered ${code.slice(0, 2)}` };
+  }
+  const place = findPlace(ville);
+  if (place && !postalCodeMatchesWilaya(code, place.wilaya)) {
+    const expected =
+      place.precision === "wilaya"
+        ? place.wilaya.name
+        : `${ville}, in ${place.wilaya.name}`;
+    return {
+      value,
+      error: `${code} belongs to ${wilaya.name}, not to ${expected}`,
+    };
+  }
+  return { value: code };
+};
+
+const checkEmail = (value: string): FieldCheck => {
+  const email = value.replace(/^mailto:/i, "").toLowerCase();
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)
+    ? { value: email }
+    : { value, error: "Not an email address" };
+};
+
+const checkWebsite = (value: string): FieldCheck => {
+  const withScheme = /^[a-z][a-z0-9+.-]*:\/\//i.test(value)
+    ? value
+    : `https://${value}`;
+  try {
+    const url = new URL(withScheme);
+    if (!/^https?:$/.test(url.protocol) || !url.hostname.includes(".")) {
+      throw new TypeError("Not a web address");
+    }
+    // URL adds a "/" after a bare host; keep the address as it was typed
+    const bare = url.pathname === "/" && !withScheme.endsWith("/");
+    return { value: bare ? url.href.slice(0, -1) : url.href };
+  } catch {
+    return { value, error: "Not a web address" };
+  }
+};
+
+// Checks one field. The whole contact is needed because the postal code is
+// checked against the ville.
+export const checkContactField = (
+  field: ContactField,
+  contact: ContactInfo
+): FieldCheck => {
+  const value = contact[field].trim();
+  if (value === "") return { value };
+  switch (field) {
+    case "tel":
+      return checkPhones(value);
+    case "cod_postal":
+      return checkPostalCode(value, contact.ville);
+    case "mail":
+      return checkEmail(value);
+    case "web_site":
+      return checkWebsite(value);
+    default:
+      return { value };
+  }
+};
+
+// Normalized contact, with each field that couldn't be normalized left as
+// it was and its problem in `errors`.
+export const checkContact = (contact: ContactInfo) => {
+  const normalized = { ...contact };
+  const errors: ContactErrors = {};
+  for (const { key } of CONTACT_FIELDS) {
+    const check = checkContactField(key, contact);
+    normalized[key] = check.value;
+    if (check.error) errors[key] = check.error;
+  }
+  return { contact: normalized, errors };
+};
+
+export interface NormalizationPlan {
+  announcement: Announcement;
+  contact: ContactInfo;
+  changes: { field: ContactField; before: string; after: string }[];
+  errors: ContactErrors;
+}
+
+// What normalizing stored contacts would change, for records with something
+// to change or to report.
+export const planNormalization = (
+  announcements: Announcement[]
+): NormalizationPlan[] =>
+  announcements.flatMap((announcement) => {
+    const before = contactOf(announcement);
+    const { contact, errors } = checkContact(before);
+    const changes = CONTACT_FIELDS.filter(
+      (f) => contact[f.key] !== before[f.key]
+    ).map((f) => ({
+      field: f.key,
+      before: before[f.key],
+      after: contact[f.key],
+    }));
+    return changes.length > 0 || Object.keys(errors).length > 0
+      ? [{ announcement, contact, changes, errors }]
+      : [];
+  });
@@ -0,0 +1,201 @@
+import { CONTACT_FIELDS, contactOf } from "./contact";
+import type { ContactField } from "./contact";
+import { parseCSV } from "./csv";
+import type { Announcement, ContactInfo } from "./types";
+import { normalizeText } from "./text";
+import { readXLSX } from "./xlsx";
+
+export type MatchField = "id" | "company_name";
+export type ImportTarget = ContactField | MatchField;
+
+// Source column index for each target, when mapped
+export type ColumnMapping = Partial<Record<ImportTarget, number>>;
+
+export interface ImportTable {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface ContactChange {
+  field: ContactField;
+  current: string;
+  incoming: string;
+  // 1-based line in the file the incoming value comes from, header included
+  line: number;
+  // The announcement already has a different value for this field
+  conflict: boolean;
+  // Other values earlier lines gave this field, overridden by `incoming`
+  replaced: { line: number; incoming: string }[];
+}
+
+export interface ImportMatch {
+  // Lines that changed the announcement, for pointing users at them
+  lines: number[];
+  announcement: Announcement;
+  matchedBy: MatchField;
+  changes: ContactChange[];
+}
+
+export interface ImportPlan {
+  matches: ImportMatch[];
+  unmatchedLines: number[];
+}
+
+export const IMPORT_TARGETS: { key: ImportTarget; label: string }[] = [
+  { key: "id", label: "Announcement ID" },
+  { key: "company_name", label: "Company Name" },
+  ...CONTACT_FIELDS,
+];
+
+const HEADER_ALIASES: Record<ImportTarget, string[]> = {
+  id: ["id", "announcement id", "annonce id"],
+  company_name: [
+    "company name",
+    "company",
+    "societe",
+    "entreprise",
+    "raison sociale",
+  ],
+  prenom: ["prenom", "first name", "contact", "nom"],
+  adresse: ["adresse", "address"],
+  cod_postal: ["code postal", "cod postal", "postal code", "cp", "zip"],
+  ville: ["ville", "city", "commune"],
+  mail: ["mail", "email", "e mail", "courriel"],
+  tel: ["telephone", "tel", "phone", "mobile", "portable"],
+  web_site: ["web site", "website", "site web", "site", "url"],
+  ok: ["ok", "remarque", "notes", "commentaire"],
+};
+
+export const guessMapping = (headers: string[]): ColumnMapping => {
+  const normalized = headers.map(normalizeText);
+  const mapping: ColumnMapping = {};
+  for (const target of Object.keys(HEADER_ALIASES) as ImportTarget[]) {
+    const index = normalized.findIndex((header) =>
+      HEADER_ALIASES[target].includes(header)
+    );
+    if (index !== -1 && !Object.values(mapping).includes(index)) {
+      mapping[target] = index;
+    }
+  }
+  return mapping;
+};
+
+export const readImportFile = async (file: File): Promise<ImportTable> => {
+  const rows = /\.xlsx$/i.test(file.name)
+    ? await readXLSX(await file.arrayBuffer())
+    : parseCSV(await file.text());
+  if (rows.length < 2) {
+    throw new Error("The file needs a header row and at least one data row");
+  }
+  const [headers, ...data] = rows;
+  return { headers: headers.map((h) => h.trim()), rows: data };
+};
+
+const cell = (row: string[], index: number | undefined) =>
+  index === undefined ? "" : (row[index] ?? "").trim();
+
+// Matches each file row to announcements, by ID when the row has one and by
+// company name otherwise. A company row enriches every announcement of that
+// company. Rows targeting the same announcement are merged field by field;
+// a later row wins for every field it sets, even when it sets the current
+// value and so drops an earlier row's change.
+export const planImport = (
+  table: ImportTable,
+  mapping: ColumnMapping,
+  announcements: Announcement[]
+): ImportPlan => {
+  const byId = new Map(announcements.map((a) => [a.id, a]));
+  const byCompany = new Map<string, Announcement[]>();
+  for (const announcement of announcements) {
+    const key = normalizeText(announcement.company_name);
+    if (!key) continue;
+    byCompany.set(key, [...(byCompany.get(key) ?? []), announcement]);
+  }
+
+  const matches = new Map<number, ImportMatch>();
+  const unmatchedLines: number[] = [];
+
+  table.rows.forEach((row, index) => {
+    const line = index + 2;
+    const byIdMatch =
+      mapping.id === undefined
+        ? undefined
+        : byId.get(Number(cell(row, mapping.id)));
+    const company = normalizeText(cell(row, mapping.company_name));
+    const matchedBy: MatchField = byIdMatch ? "id" : "company_name";
+    const targets = byIdMatch
+      ? [byIdMatch]
+      : (company && byCompany.get(company)) || [];
+    if (targets.length === 0) {
+      unmatchedLines.push(line);
+      return;
+    }
+
+    for (const announcement of targets) {
+      const current = contactOf(announcement);
+      const earlier = matches.get(announcement.id);
+      const changes = new Map(earlier?.changes.map((c) => [c.field, c]));
+      let touched = false;
+      for (const { key } of CONTACT_FIELDS) {
+        const incoming = cell(row, mapping[key]);
+        if (!incoming) continue;
+        const previous = changes.get(key);
+        if (incoming === current[key]) {
+          if (previous) {
+            changes.delete(key);
+            touched = true;
+          }
+          continue;
+        }
+        const replaced = previous?.replaced ?? [];
+        changes.set(key, {
+          field: key,
+          current: current[key],
+          incoming,
+          line,
+          conflict: current[key] !== "",
+          replaced:
+            previous && previous.incoming !== incoming
+              ? [
+                  ...replaced,
+                  { line: previous.line, incoming: previous.incoming },
+                ]
+              : replaced,
+        });
+        touched = true;
+      }
+      if (!touched) continue;
+      const merged = CONTACT_FIELDS.flatMap(({ key }) => {
+        const change = changes.get(key);
+        return change ? [change] : [];
+      });
+      if (merged.length === 0) {
+        matches.delete(announcement.id);
+        continue;
+      }
+      matches.set(announcement.id, {
+        lines: [...(earlier?.lines ?? []), line],
+        announcement,
+        matchedBy: earlier?.matchedBy ?? matchedBy,
+        changes: merged,
+      });
+    }
+  });
+
+  return { matches: [...matches.values()], unmatchedLines };
+};
+
+// Contact to send for a match. Conflicting fields keep the current value
+// unless overwriting was chosen.
+export const mergeContact = (
+  match: ImportMatch,
+  overwriteConflicts: boolean
+): ContactInfo => {
+  const contact = contactOf(match.announcement);
+  for (const change of match.changes) {
+    if (!change.conflict || overwriteConflicts) {
+      contact[change.field] = change.incoming;
+    }
+  }
+  return contact;
+};
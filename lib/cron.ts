@@ -0,0 +1,184 @@
+// Minimal five-field cron support (minute hour day-of-month month
+// day-of-week) for building schedules and previewing their next run.
+
+export const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+interface CronField {
+  values: Set<number>;
+  // Fields listing every value, like "*" or "*/1", don't restrict; matters
+  // for the day-of-month/day-of-week rule
+  wildcard: boolean;
+}
+
+interface ParsedCron {
+  minutes: CronField;
+  hours: CronField;
+  daysOfMonth: CronField;
+  months: CronField;
+  daysOfWeek: CronField;
+}
+
+// Digits only, so empty or signed parts aren't read as numbers
+const parseNumber = (text: string | undefined) =>
+  text !== undefined && /^\d+$/.test(text) ? Number(text) : NaN;
+
+const parseField = (
+  expression: string,
+  min: number,
+  max: number,
+  name: string
+): CronField => {
+  const values = new Set<number>();
+  for (const part of expression.split(",")) {
+    if (part === "") {
+      throw new Error(`${name} has an empty list item: "${expression}"`);
+    }
+    const [range, stepText, ...extra] = part.split("/");
+    const step = stepText === undefined ? 1 : parseNumber(stepText);
+    if (!Number.isInteger(step) || step < 1 || extra.length > 0) {
+      throw new Error(`Invalid step in ${name}: "${part}"`);
+    }
+    let start = min;
+    let end = max;
+    if (range !== "*") {
+      const [fromText, toText, ...rest] = range.split("-");
+      start = rest.length > 0 ? NaN : parseNumber(fromText);
+      end =
+        toText === undefined
+          ? stepText === undefined
+            ? start
+            : max
+          : parseNumber(toText);
+    }
+    if (
+      !Number.isInteger(start) ||
+      !Number.isInteger(end) ||
+      start < min ||
+      end > max ||
+      start > end
+    ) {
+      throw new Error(`${name} must be between ${min} and ${max}: "${part}"`);
+    }
+    for (let value = start; value <= end; value += step) values.add(value);
+  }
+  return { values, wildcard: values.size === max - min + 1 };
+};
+
+export const parseCron = (expression: string): ParsedCron => {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(
+      "A cron expression needs 5 fields: minute hour day month weekday"
+    );
+  }
+  const daysOfWeek = parseField(fields[4], 0, 7, "Weekday");
+  // 7 is an alias for Sunday, so "0-6" lists every day too
+  if (daysOfWeek.values.delete(7)) daysOfWeek.values.add(0);
+  daysOfWeek.wildcard = daysOfWeek.values.size === 7;
+  return {
+    minutes: parseField(fields[0], 0, 59, "Minute"),
+    hours: parseField(fields[1], 0, 23, "Hour"),
+    daysOfMonth: parseField(fields[2], 1, 31, "Day of month"),
+    months: parseField(fields[3], 1, 12, "Month"),
+    daysOfWeek,
+  };
+};
+
+export const validateCron = (expression: string): string | null => {
+  try {
+    parseCron(expression);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+};
+
+const matchesDay = (cron: ParsedCron, date: Date) => {
+  if (!cron.months.values.has(date.getMonth() + 1)) return false;
+  const domMatch = cron.daysOfMonth.values.has(date.getDate());
+  const dowMatch = cron.daysOfWeek.values.has(date.getDay());
+  // Standard cron: when both day fields are restricted, either may match
+  if (!cron.daysOfMonth.wildcard && !cron.daysOfWeek.wildcard) {
+    return domMatch || dowMatch;
+  }
+  return domMatch && dowMatch;
+};
+
+// Next time (local time zone) strictly after `from` that the expression
+// fires, or null if it doesn't fire within the next year.
+export const nextCronRun = (
+  expression: string,
+  from: Date = new Date()
+): Date | null => {
+  const cron = parseCron(expression);
+  const hours = [...cron.hours.values].sort((a, b) => a - b);
+  const minutes = [...cron.minutes.values].sort((a, b) => a - b);
+  const day = new Date(from);
+  day.setHours(0, 0, 0, 0);
+
+  for (let i = 0; i <= 366; i++) {
+    if (matchesDay(cron, day)) {
+      for (const hour of hours) {
+        for (const minute of minutes) {
+          const candidate = new Date(day);
+          candidate.setHours(hour, minute, 0, 0);
+          if (candidate > from) return candidate;
+        }
+      }
+    }
+    day.setDate(day.getDate() + 1);
+  }
+  return null;
+};
+
+export type ScheduleFrequency = "daily" | "weekly" | "cron";
+
+export interface SchedulePicker {
+  frequency: ScheduleFrequency;
+  // "HH:MM"
+  time: string;
+  // 0 (Sunday) to 6, for weekly schedules
+  weekdays: number[];
+  cron: string;
+}
+
+export const pickerToCron = (picker: SchedulePicker) => {
+  if (picker.frequency === "cron") return picker.cron.trim();
+  const [hour, minute] = picker.time.split(":").map(Number);
+  const days =
+    picker.frequency === "weekly"
+      ? [...picker.weekdays].sort((a, b) => a - b).join(",") || "*"
+      : "*";
+  return `${minute} ${hour} * * ${days}`;
+};
+
+// Recognises expressions the simple picker produces, so editing a schedule
+// reopens it in the same mode it was created with.
+export const cronToPicker = (expression: string): SchedulePicker => {
+  const match = expression
+    .trim()
+    .match(/^(\d{1,2}) (\d{1,2}) \* \* (\*|[0-6](?:,[0-6])*)$/);
+  if (!match) {
+    return { frequency: "cron", time: "06:00", weekdays: [], cron: expression };
+  }
+  const time = `${match[2].padStart(2, "0")}:${match[1].padStart(2, "0")}`;
+  if (match[3] === "*") {
+    return { frequency: "daily", time, weekdays: [], cron: expression };
+  }
+  return {
+    frequency: "weekly",
+    time,
+    weekdays: match[3].split(",").map(Number),
+    cron: expression,
+  };
+};
+
+export const describeCron = (expression: string) => {
+  const picker = cronToPicker(expression);
+  if (picker.frequency === "daily") return `Every day at ${picker.time}`;
+  if (picker.frequency === "weekly") {
+    const days = picker.weekdays.map((d) => WEEKDAYS[d]).join(", ");
+    return `Every ${days} at ${picker.time}`;
+  }
+  return `Cron: ${expression}`;
+};
@@ -0,0 +1,85 @@
+import type { ExportColumn } from "./exportColumns";
+import type { Announcement } from "./types";
+
+export type CsvDelimiter = "," | ";" | "\t";
+
+export interface CsvOptions {
+  delimiter: CsvDelimiter;
+  // Excel needs the byte order mark to read UTF-8 accents correctly
+  bom: boolean;
+}
+
+// RFC 4180: every field quoted, embedded quotes doubled, CRLF line breaks.
+const quote = (value: string | number) =>
+  `"${String(value).replace(/"/g, '""')}"`;
+
+export const toCSV = (
+  rows: Announcement[],
+  columns: ExportColumn[],
+  { delimiter, bom }: CsvOptions
+) => {
+  const lines = [
+    columns.map((column) => quote(column.label)).join(delimiter),
+    ...rows.map((row) =>
+      columns.map((column) => quote(column.value(row))).join(delimiter)
+    ),
+  ];
+  return (bom ? "\uFEFF" : "") + lines.join("\r\n") + "\r\n";
+};
+
+// Picks whichever of the supported delimiters appears most in the header.
+export const detectDelimiter = (text: string): CsvDelimiter => {
+  const header = text.split(/\r?\n/, 1)[0] ?? "";
+  const candidates: CsvDelimiter[] = [",", ";", "\t"];
+  return candidates.reduce((best, candidate) =>
+    header.split(candidate).length > header.split(best).length
+      ? candidate
+      : best
+  );
+};
+
+// RFC 4180 parser: quoted fields may hold delimiters, doubled quotes and
+// line breaks. Blank lines are skipped.
+export const parseCSV = (
+  text: string,
+  delimiter: CsvDelimiter = detectDelimiter(text)
+): string[][] => {
+  const input = text.replace(/^\uFEFF/, "");
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some((value) => value !== "")) rows.push(row);
+    row = [];
+    field = "";
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) endRow();
+  return rows;
+};
@@ -0,0 +1,19 @@
+// Triggers a browser download for generated content.
+export const downloadFile = (
+  content: BlobPart,
+  filename: string,
+  type: string
+) => {
+  const blob = new Blob([content], { type });
+  const link = document.createElement("a");
+  const url = URL.createObjectURL(blob);
+  link.setAttribute("href", url);
+  link.setAttribute("download", filename);
+  link.style.visibility = "hidden";
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+export const todayStamp = () => new Date().toISOString().split("T")[0];
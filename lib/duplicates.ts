@@ -0,0 +1,135 @@
+import { companyKey } from "./companies";
+import { CONTACT_FIELDS, contactOf } from "./contact";
+import { parseLocalDate } from "./filters";
+import { normalizeText } from "./text";
+import type { Announcement, ContactInfo } from "./types";
+
+export interface DuplicateCluster {
+  key: string;
+  // Oldest first, so the original posting leads
+  announcements: Announcement[];
+  // Highest pair score in the cluster, 0 to 1
+  score: number;
+}
+
+// Pairs scoring at least this much are treated as the same offer
+export const DUPLICATE_THRESHOLD = 0.6;
+
+// Re-scrapes of one offer are dated this many days apart at most
+const DATE_WINDOW_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const tokens = (value: string) =>
+  new Set(normalizeText(value).split(" ").filter(Boolean));
+
+// Two records both missing a value aren't alike for it, so empty sets score 0
+const jaccard = (a: Set<string>, b: Set<string>) => {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach((token) => {
+    if (b.has(token)) shared++;
+  });
+  return shared / (a.size + b.size - shared);
+};
+
+// 1 on the same day, falling to 0 at DATE_WINDOW_DAYS apart or when either
+// date can't be read
+const dateProximity = (a: string, b: string) => {
+  const [first, second] = [parseLocalDate(a), parseLocalDate(b)];
+  if (!first || !second) return 0;
+  const days = Math.abs(first.getTime() - second.getTime()) / DAY_MS;
+  return Math.max(0, 1 - days / DATE_WINDOW_DAYS);
+};
+
+// Only announcements of the same, named company are compared. Title wording
+// counts most, since re-scraped offers usually differ by a word or two.
+export const similarity = (a: Announcement, b: Announcement) => {
+  const key = companyKey(a);
+  if (!key || key !== companyKey(b)) return 0;
+  const title = jaccard(
+    tokens(a.announcement_title),
+    tokens(b.announcement_title)
+  );
+  const products = jaccard(tokens(a.products), tokens(b.products));
+  const location =
+    a.location && normalizeText(a.location) === normalizeText(b.location)
+      ? 1
+      : 0;
+  const date = dateProximity(a.announcement_date, b.announcement_date);
+  return 0.5 * title + 0.2 * products + 0.15 * location + 0.15 * date;
+};
+
+export const isDuplicate = (announcement: Announcement) =>
+  announcement.duplicate_of !== undefined;
+
+export const findDuplicateClusters = (
+  announcements: Announcement[]
+): DuplicateCluster[] => {
+  const byCompany = new Map<string, Announcement[]>();
+  for (const announcement of announcements) {
+    const key = companyKey(announcement);
+    if (isDuplicate(announcement) || !key) continue;
+    byCompany.set(key, [...(byCompany.get(key) ?? []), announcement]);
+  }
+
+  const clusters: DuplicateCluster[] = [];
+  byCompany.forEach((group) => {
+    // Union-find over the company's announcements
+    const parent = group.map((_, index) => index);
+    const root = (index: number): number =>
+      parent[index] === index ? index : (parent[index] = root(parent[index]));
+    const scores = new Map<number, number>();
+
+    for (let i = 0; i < group.length; i++) {
+      for (let j = i + 1; j < group.length; j++) {
+        const score = similarity(group[i], group[j]);
+        if (score < DUPLICATE_THRESHOLD) continue;
+        const [a, b] = [root(i), root(j)];
+        parent[b] = a;
+        scores.set(a, Math.max(scores.get(a) ?? 0, scores.get(b) ?? 0, score));
+      }
+    }
+
+    const members = new Map<number, Announcement[]>();
+    group.forEach((announcement, index) => {
+      const r = root(index);
+      members.set(r, [...(members.get(r) ?? []), announcement]);
+    });
+    members.forEach((list, r) => {
+      if (list.length < 2) return;
+      const sorted = [...list].sort((a, b) => a.id - b.id);
+      clusters.push({
+        key: sorted.map((a) => a.id).join("-"),
+        announcements: sorted,
+        score: scores.get(r) ?? DUPLICATE_THRESHOLD,
+      });
+    });
+  });
+
+  return clusters.sort((a, b) => b.score - a.score);
+};
+
+const filledFieldCount = (announcement: Announcement) => {
+  const contact = contactOf(announcement);
+  return CONTACT_FIELDS.filter((f) => contact[f.key]).length;
+};
+
+// The record with the most contact details survives; the oldest on a tie.
+export const suggestSurvivor = (cluster: DuplicateCluster) =>
+  cluster.announcements.reduce((best, candidate) =>
+    filledFieldCount(candidate) > filledFieldCount(best) ? candidate : best
+  );
+
+// The survivor's contact, with empty fields filled from the other records.
+export const mergeClusterContact = (
+  survivor: Announcement,
+  others: Announcement[]
+): ContactInfo => {
+  const contact = contactOf(survivor);
+  for (const { key } of CONTACT_FIELDS) {
+    if (contact[key]) continue;
+    contact[key] =
+      others.map((a) => contactOf(a)[key]).find((value) => value) ?? "";
+  }
+  return contact;
+};
@@ -0,0 +1,62 @@
+import { stageOf } from "./pipeline";
+import type { Announcement } from "./types";
+
+export interface ExportColumn {
+  key: string;
+  label: string;
+  value: (announcement: Announcement) => string | number;
+  // Cell type for spreadsheet formats; text when omitted
+  kind?: "number" | "date";
+}
+
+export const EXPORT_COLUMNS: ExportColumn[] = [
+  { key: "id", label: "ID", value: (a) => a.id, kind: "number" },
+  { key: "company_name", label: "Company Name", value: (a) => a.company_name },
+  {
+    key: "announcement_title",
+    label: "Title",
+    value: (a) => a.announcement_title,
+  },
+  { key: "description", label: "Description", value: (a) => a.description },
+  {
+    key: "announcement_type",
+    label: "Type",
+    value: (a) => a.announcement_type,
+  },
+  { key: "location", label: "Location", value: (a) => a.location },
+  { key: "products", label: "Products", value: (a) => a.products },
+  {
+    key: "announcement_date",
+    label: "Date",
+    value: (a) => a.announcement_date,
+    kind: "date",
+  },
+  { key: "announcement_url", label: "URL", value: (a) => a.announcement_url },
+  {
+    key: "checked",
+    label: "Status",
+    value: (a) => (a.checked === 1 ? "Checked" : "Unchecked"),
+  },
+  { key: "stage", label: "Stage", value: (a) => stageOf(a) },
+  {
+    key: "scraped_date",
+    label: "Scraped Date",
+    value: (a) => a.scraped_date,
+    kind: "date",
+  },
+  { key: "prenom", label: "Prénom", value: (a) => a.prenom || "" },
+  { key: "adresse", label: "Adresse", value: (a) => a.adresse || "" },
+  { key: "cod_postal", label: "Code Postal", value: (a) => a.cod_postal || "" },
+  { key: "ville", label: "Ville", value: (a) => a.ville || "" },
+  { key: "mail", label: "Mail", value: (a) => a.mail || "" },
+  { key: "tel", label: "Téléphone", value: (a) => a.tel || "" },
+  { key: "web_site", label: "Web Site", value: (a) => a.web_site || "" },
+  { key: "ok", label: "OK", value: (a) => a.ok || "" },
+];
+
+export const DEFAULT_EXPORT_COLUMN_KEYS = EXPORT_COLUMNS.map((c) => c.key);
+
+export const resolveColumns = (keys: string[]) =>
+  keys
+    .map((key) => EXPORT_COLUMNS.find((c) => c.key === key))
+    .filter((c): c is ExportColumn => c !== undefined);
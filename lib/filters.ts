@@ -0,0 +1,232 @@
+import { stageOf } from "./pipeline";
+import type { Announcement } from "./types";
+
+export interface AnnouncementFilters {
+  search: string;
+  type: string;
+  location: string;
+  product: string;
+  status: string;
+  // Pipeline stage id
+  stage: string;
+  dateFrom: string;
+  dateTo: string;
+  company: string;
+  // Exact member ID, for following a company from the analytics page
+  member: string;
+  // Scrape run id: only announcements that run introduced or changed
+  run: string;
+  // "due": follow-ups due today or overdue
+  followUp: string;
+}
+
+export const DEFAULT_FILTERS: AnnouncementFilters = {
+  search: "",
+  type: "all",
+  location: "all",
+  product: "all",
+  status: "all",
+  stage: "all",
+  dateFrom: "",
+  dateTo: "",
+  company: "",
+  member: "",
+  run: "",
+  followUp: "",
+};
+
+export type SortField =
+  | "announcement_title"
+  | "company_name"
+  | "announcement_type"
+  | "location"
+  | "announcement_date";
+
+export type SortDirection = "asc" | "desc";
+
+export interface SortState {
+  field: SortField;
+  direction: SortDirection;
+}
+
+export const SORT_FIELDS: SortField[] = [
+  "announcement_title",
+  "company_name",
+  "announcement_type",
+  "location",
+  "announcement_date",
+];
+
+export const PAGE_SIZES = [25, 50, 100, 250];
+export const DEFAULT_PAGE_SIZE = 50;
+
+export const hasActiveFilters = (filters: AnnouncementFilters) =>
+  (Object.keys(DEFAULT_FILTERS) as (keyof AnnouncementFilters)[]).some(
+    (key) => filters[key] !== DEFAULT_FILTERS[key]
+  );
+
+// Reads an announcement date as a local calendar day: yyyy-mm-dd, the
+// scraped dd/mm/yyyy, or anything else Date understands. `new Date` alone
+// would read yyyy-mm-dd as UTC and shift it a day west of Greenwich.
+export const parseLocalDate = (value: string): Date | null => {
+  const text = value.trim();
+  const iso = /^(\d{4})-(\d{2})-(\d{2})$/.exec(text);
+  const scraped = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(text);
+  const date = iso
+    ? new Date(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]))
+    : scraped
+    ? new Date(Number(scraped[3]), Number(scraped[2]) - 1, Number(scraped[1]))
+    : new Date(text);
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+// Local calendar day as yyyy-mm-dd, the format follow-up dates use
+export const localDateStamp = (date = new Date()) =>
+  [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, "0"),
+    String(date.getDate()).padStart(2, "0"),
+  ].join("-");
+
+export const isFollowUpDue = (a: Announcement, today = localDateStamp()) =>
+  !!a.follow_up_date && a.follow_up_date <= today;
+
+// Client-side equivalent of the backend query, used when the backend returns
+// the full list instead of a page.
+export const matchesFilters = (
+  a: Announcement,
+  filters: AnnouncementFilters,
+  // Announcements the selected run touched, when filtering by run
+  runAnnouncementIds?: Set<number> | null
+) => {
+  const searchTerm = filters.search.toLowerCase();
+
+  // Search filter
+  const matchesSearch =
+    searchTerm === "" ||
+    a.announcement_title.toLowerCase().includes(searchTerm) ||
+    a.description.toLowerCase().includes(searchTerm) ||
+    a.location.toLowerCase().includes(searchTerm) ||
+    a.products.toLowerCase().includes(searchTerm) ||
+    a.company_name.toLowerCase().includes(searchTerm);
+
+  // Type filter
+  const matchesType =
+    filters.type === "all" || a.announcement_type === filters.type;
+
+  // Location filter
+  const matchesLocation =
+    filters.location === "all" || a.location === filters.location;
+
+  // Product filter
+  const matchesProduct =
+    filters.product === "all" ||
+    a.products.toLowerCase().includes(filters.product.toLowerCase());
+
+  // Status filter
+  const matchesStatus =
+    filters.status === "all" ||
+    (filters.status === "checked" && a.checked === 1) ||
+    (filters.status === "unchecked" && a.checked === 0);
+
+  // Pipeline stage filter
+  const matchesStage = filters.stage === "all" || stageOf(a) === filters.stage;
+
+  // Date filters
+  const announcementDate = parseLocalDate(a.announcement_date);
+  const fromDate = filters.dateFrom ? parseLocalDate(filters.dateFrom) : null;
+  const toDate = filters.dateTo ? parseLocalDate(filters.dateTo) : null;
+
+  const matchesDateFrom =
+    !fromDate || (announcementDate !== null && announcementDate >= fromDate);
+  const matchesDateTo =
+    !toDate || (announcementDate !== null && announcementDate <= toDate);
+
+  // Company filter
+  const matchesCompany =
+    filters.company === "" ||
+    a.company_name.toLowerCase().includes(filters.company.toLowerCase());
+  const matchesMember = filters.member === "" || a.member_id === filters.member;
+
+  // Run filter
+  const matchesRun = filters.run === "" || !!runAnnouncementIds?.has(a.id);
+
+  // Follow-up filter
+  const matchesFollowUp = filters.followUp !== "due" || isFollowUpDue(a);
+
+  return (
+    matchesSearch &&
+    matchesType &&
+    matchesLocation &&
+    matchesProduct &&
+    matchesStatus &&
+    matchesStage &&
+    matchesDateFrom &&
+    matchesDateTo &&
+    matchesCompany &&
+    matchesMember &&
+    matchesRun &&
+    matchesFollowUp
+  );
+};
+
+const compareValues = (a: Announcement, b: Announcement, field: SortField) => {
+  if (field === "announcement_date") {
+    const aDate = parseLocalDate(a.announcement_date);
+    const bDate = parseLocalDate(b.announcement_date);
+    if (aDate && bDate) return aDate.getTime() - bDate.getTime();
+  }
+  return a[field].localeCompare(b[field], "fr", { sensitivity: "base" });
+};
+
+export const sortAnnouncements = (
+  announcements: Announcement[],
+  sort: SortState | null
+) => {
+  if (!sort) return announcements;
+  const sign = sort.direction === "asc" ? 1 : -1;
+  return [...announcements].sort(
+    (a, b) => sign * compareValues(a, b, sort.field)
+  );
+};
+
+export const paginate = <T>(items: T[], page: number, pageSize: number) =>
+  items.slice((page - 1) * pageSize, page * pageSize);
+
+// Clicking a header cycles ascending → descending → backend order.
+export const nextSort = (
+  current: SortState | null,
+  field: SortField
+): SortState | null => {
+  if (!current || current.field !== field) return { field, direction: "asc" };
+  if (current.direction === "asc") return { field, direction: "desc" };
+  return null;
+};
+
+export interface FilterOptions {
+  types: string[];
+  locations: string[];
+  products: string[];
+}
+
+// `products` is a comma-separated list as scraped
+export const splitProducts = (products: string) =>
+  products
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+
+// Get unique values for filter dropdowns
+export const collectFilterOptions = (
+  announcements: Announcement[]
+): FilterOptions => ({
+  types: Array.from(
+    new Set(announcements.map((a) => a.announcement_type))
+  ).filter(Boolean),
+  locations: Array.from(new Set(announcements.map((a) => a.location))).filter(
+    Boolean
+  ),
+  products: Array.from(
+    new Set(announcements.flatMap((a) => splitProducts(a.products)))
+  ),
+});
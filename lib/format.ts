@@ -0,0 +1,2 @@
+export const formatDateTime = (value?: string) =>
+  value ? new Date(value).toLocaleString() : "—";
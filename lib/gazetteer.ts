@@ -0,0 +1,290 @@
+import { normalizeText } from "./text";
+import type { Announcement } from "./types";
+
+// Offline gazetteer of Algeria: the 58 wilayas and the larger communes, with
+// approximate town-centre coordinates. Precise enough for a regional map, so
+// no geocoding service is needed.
+
+export interface Wilaya {
+  // Official number, also the first two digits of its postal codes
+  code: number;
+  name: string;
+  lat: number;
+  lon: number;
+  // Other spellings seen in listings
+  aliases?: string[];
+  // Wilaya it was split from in 2019; its postal codes still use that number
+  split_from?: number;
+}
+
+export interface Commune {
+  name: string;
+  wilaya: number;
+  lat: number;
+  lon: number;
+}
+
+export interface Place {
+  name: string;
+  wilaya: Wilaya;
+  lat: number;
+  lon: number;
+  precision: "commune" | "wilaya";
+}
+
+export const WILAYAS: Wilaya[] = [
+  { code: 1, name: "Adrar", lat: 27.87, lon: -0.29 },
+  { code: 2, name: "Chlef", lat: 36.16, lon: 1.33, aliases: ["El Asnam"] },
+  { code: 3, name: "Laghouat", lat: 33.8, lon: 2.87 },
+  { code: 4, name: "Oum El Bouaghi", lat: 35.88, lon: 7.11 },
+  { code: 5, name: "Batna", lat: 35.56, lon: 6.17 },
+  {
+    code: 6,
+    name: "Béjaïa",
+    lat: 36.75,
+    lon: 5.08,
+    aliases: ["Bejaia", "Bougie"],
+  },
+  { code: 7, name: "Biskra", lat: 34.85, lon: 5.73 },
+  { code: 8, name: "Béchar", lat: 31.62, lon: -2.22 },
+  { code: 9, name: "Blida", lat: 36.47, lon: 2.83 },
+  { code: 10, name: "Bouira", lat: 36.37, lon: 3.9 },
+  {
+    code: 11,
+    name: "Tamanrasset",
+    lat: 22.79,
+    lon: 5.52,
+    aliases: ["Tamanghasset"],
+  },
+  { code: 12, name: "Tébessa", lat: 35.4, lon: 8.12 },
+  { code: 13, name: "Tlemcen", lat: 34.88, lon: -1.32 },
+  { code: 14, name: "Tiaret", lat: 35.37, lon: 1.32 },
+  { code: 15, name: "Tizi Ouzou", lat: 36.71, lon: 4.05 },
+  {
+    code: 16,
+    name: "Alger",
+    lat: 36.75,
+    lon: 3.06,
+    aliases: ["Algiers", "Alger Centre", "El Djazair"],
+  },
+  { code: 17, name: "Djelfa", lat: 34.67, lon: 3.26 },
+  { code: 18, name: "Jijel", lat: 36.82, lon: 5.77 },
+  { code: 19, name: "Sétif", lat: 36.19, lon: 5.41, aliases: ["Stif"] },
+  { code: 20, name: "Saïda", lat: 34.83, lon: 0.15 },
+  { code: 21, name: "Skikda", lat: 36.88, lon: 6.91 },
+  { code: 22, name: "Sidi Bel Abbès", lat: 35.19, lon: -0.64 },
+  { code: 23, name: "Annaba", lat: 36.9, lon: 7.77 },
+  { code: 24, name: "Guelma", lat: 36.46, lon: 7.43 },
+  {
+    code: 25,
+    name: "Constantine",
+    lat: 36.37,
+    lon: 6.61,
+    aliases: ["Qacentina"],
+  },
+  { code: 26, name: "Médéa", lat: 36.26, lon: 2.75 },
+  { code: 27, name: "Mostaganem", lat: 35.93, lon: 0.09 },
+  { code: 28, name: "M'Sila", lat: 35.71, lon: 4.54, aliases: ["Msila"] },
+  { code: 29, name: "Mascara", lat: 35.4, lon: 0.14 },
+  { code: 30, name: "Ouargla", lat: 31.95, lon: 5.33 },
+  { code: 31, name: "Oran", lat: 35.7, lon: -0.63, aliases: ["Wahran"] },
+  { code: 32, name: "El Bayadh", lat: 33.68, lon: 1.02 },
+  { code: 33, name: "Illizi", lat: 26.48, lon: 8.47 },
+  {
+    code: 34,
+    name: "Bordj Bou Arréridj",
+    lat: 36.07,
+    lon: 4.76,
+    aliases: ["BBA"],
+  },
+  { code: 35, name: "Boumerdès", lat: 36.76, lon: 3.48 },
+  { code: 36, name: "El Tarf", lat: 36.77, lon: 8.31 },
+  { code: 37, name: "Tindouf", lat: 27.67, lon: -8.15 },
+  { code: 38, name: "Tissemsilt", lat: 35.61, lon: 1.81 },
+  { code: 39, name: "El Oued", lat: 33.37, lon: 6.86 },
+  { code: 40, name: "Khenchela", lat: 35.44, lon: 7.14 },
+  { code: 41, name: "Souk Ahras", lat: 36.29, lon: 7.95 },
+  { code: 42, name: "Tipaza", lat: 36.59, lon: 2.45, aliases: ["Tipasa"] },
+  { code: 43, name: "Mila", lat: 36.45, lon: 6.26 },
+  { code: 44, name: "Aïn Defla", lat: 36.26, lon: 1.97 },
+  { code: 45, name: "Naâma", lat: 33.27, lon: -0.31 },
+  { code: 46, name: "Aïn Témouchent", lat: 35.3, lon: -1.14 },
+  { code: 47, name: "Ghardaïa", lat: 32.49, lon: 3.67 },
+  { code: 48, name: "Relizane", lat: 35.74, lon: 0.56 },
+  { code: 49, name: "Timimoun", lat: 29.26, lon: 0.23, split_from: 1 },
+  {
+    code: 50,
+    name: "Bordj Badji Mokhtar",
+    lat: 21.33,
+    lon: 0.95,
+    split_from: 1,
+  },
+  { code: 51, name: "Ouled Djellal", lat: 34.42, lon: 5.07, split_from: 7 },
+  { code: 52, name: "Béni Abbès", lat: 30.13, lon: -2.17, split_from: 8 },
+  { code: 53, name: "In Salah", lat: 27.2, lon: 2.47, split_from: 11 },
+  { code: 54, name: "In Guezzam", lat: 19.57, lon: 5.77, split_from: 11 },
+  { code: 55, name: "Touggourt", lat: 33.1, lon: 6.07, split_from: 30 },
+  { code: 56, name: "Djanet", lat: 24.55, lon: 9.48, split_from: 33 },
+  { code: 57, name: "El M'Ghair", lat: 33.95, lon: 5.92, split_from: 39 },
+  {
+    code: 58,
+    name: "El Meniaa",
+    lat: 30.58,
+    lon: 2.88,
+    aliases: ["El Golea"],
+    split_from: 47,
+  },
+];
+
+export const COMMUNES: Commune[] = [
+  { name: "Bab El Oued", wilaya: 16, lat: 36.79, lon: 3.05 },
+  { name: "Hussein Dey", wilaya: 16, lat: 36.74, lon: 3.1 },
+  { name: "El Harrach", wilaya: 16, lat: 36.72, lon: 3.13 },
+  { name: "Kouba", wilaya: 16, lat: 36.73, lon: 3.08 },
+  { name: "Bir Mourad Raïs", wilaya: 16, lat: 36.74, lon: 3.05 },
+  { name: "Birkhadem", wilaya: 16, lat: 36.71, lon: 3.05 },
+  { name: "Dar El Beïda", wilaya: 16, lat: 36.71, lon: 3.21 },
+  { name: "Bab Ezzouar", wilaya: 16, lat: 36.72, lon: 3.18 },
+  { name: "Chéraga", wilaya: 16, lat: 36.77, lon: 2.96 },
+  { name: "Draria", wilaya: 16, lat: 36.72, lon: 2.99 },
+  { name: "Zéralda", wilaya: 16, lat: 36.71, lon: 2.84 },
+  { name: "Baraki", wilaya: 16, lat: 36.67, lon: 3.1 },
+  { name: "Rouiba", wilaya: 16, lat: 36.74, lon: 3.28 },
+  { name: "Reghaïa", wilaya: 16, lat: 36.74, lon: 3.34 },
+  { name: "Es Sénia", wilaya: 31, lat: 35.65, lon: -0.62 },
+  { name: "Bir El Djir", wilaya: 31, lat: 35.72, lon: -0.55 },
+  { name: "Arzew", wilaya: 31, lat: 35.85, lon: -0.32 },
+  { name: "Aïn El Turk", wilaya: 31, lat: 35.74, lon: -0.77 },
+  { name: "Boufarik", wilaya: 9, lat: 36.57, lon: 2.91 },
+  { name: "Larbaâ", wilaya: 9, lat: 36.57, lon: 3.15 },
+  { name: "Mouzaïa", wilaya: 9, lat: 36.47, lon: 2.69 },
+  { name: "El Eulma", wilaya: 19, lat: 36.15, lon: 5.69 },
+  { name: "Aïn Oulmene", wilaya: 19, lat: 35.92, lon: 5.29 },
+  { name: "El Khroub", wilaya: 25, lat: 36.26, lon: 6.69 },
+  { name: "Ali Mendjeli", wilaya: 25, lat: 36.25, lon: 6.57 },
+  { name: "Hamma Bouziane", wilaya: 25, lat: 36.41, lon: 6.59 },
+  { name: "El Bouni", wilaya: 23, lat: 36.86, lon: 7.72 },
+  { name: "El Hadjar", wilaya: 23, lat: 36.8, lon: 7.73 },
+  { name: "Akbou", wilaya: 6, lat: 36.46, lon: 4.53 },
+  { name: "El Kseur", wilaya: 6, lat: 36.68, lon: 4.85 },
+  { name: "Azazga", wilaya: 15, lat: 36.74, lon: 4.37 },
+  { name: "Draâ Ben Khedda", wilaya: 15, lat: 36.73, lon: 3.96 },
+  { name: "Bordj Menaïel", wilaya: 35, lat: 36.74, lon: 3.72 },
+  { name: "Boudouaou", wilaya: 35, lat: 36.73, lon: 3.41 },
+  { name: "Khemis El Khechna", wilaya: 35, lat: 36.65, lon: 3.33 },
+  { name: "Koléa", wilaya: 42, lat: 36.64, lon: 2.77 },
+  { name: "Cherchell", wilaya: 42, lat: 36.61, lon: 2.19 },
+  { name: "Hadjout", wilaya: 42, lat: 36.51, lon: 2.42 },
+  { name: "Ténès", wilaya: 2, lat: 36.51, lon: 1.31 },
+  { name: "Aïn Tédelès", wilaya: 27, lat: 36.0, lon: 0.3 },
+  { name: "Oued Rhiou", wilaya: 48, lat: 35.96, lon: 0.92 },
+  { name: "Khemis Miliana", wilaya: 44, lat: 36.26, lon: 2.22 },
+  { name: "Miliana", wilaya: 44, lat: 36.31, lon: 2.23 },
+  { name: "Berrouaghia", wilaya: 26, lat: 36.14, lon: 2.91 },
+  { name: "Bou Saâda", wilaya: 28, lat: 35.21, lon: 4.18 },
+  { name: "Tolga", wilaya: 7, lat: 34.72, lon: 5.38 },
+  { name: "Barika", wilaya: 5, lat: 35.39, lon: 5.37 },
+  { name: "Aïn Touta", wilaya: 5, lat: 35.38, lon: 5.9 },
+  { name: "Maghnia", wilaya: 13, lat: 34.85, lon: -1.73 },
+  { name: "Ghazaouet", wilaya: 13, lat: 35.1, lon: -1.86 },
+  { name: "Collo", wilaya: 21, lat: 37.0, lon: 6.56 },
+  { name: "Azzaba", wilaya: 21, lat: 36.74, lon: 7.1 },
+  { name: "Taher", wilaya: 18, lat: 36.77, lon: 5.9 },
+  { name: "Aïn Oussera", wilaya: 17, lat: 35.45, lon: 2.91 },
+  { name: "Messaad", wilaya: 17, lat: 34.15, lon: 3.5 },
+  { name: "Aflou", wilaya: 3, lat: 34.11, lon: 2.1 },
+  { name: "Sig", wilaya: 29, lat: 35.53, lon: -0.19 },
+  { name: "Mohammadia", wilaya: 29, lat: 35.59, lon: 0.07 },
+  { name: "Telagh", wilaya: 22, lat: 34.78, lon: -0.57 },
+  { name: "Metlili", wilaya: 47, lat: 32.27, lon: 3.63 },
+  { name: "Hassi Messaoud", wilaya: 30, lat: 31.68, lon: 6.07 },
+  { name: "Oued Zenati", wilaya: 24, lat: 36.32, lon: 7.16 },
+  { name: "Aïn Beïda", wilaya: 4, lat: 35.8, lon: 7.39 },
+  { name: "Aïn M'lila", wilaya: 4, lat: 36.04, lon: 6.57 },
+  { name: "Bir El Ater", wilaya: 12, lat: 34.74, lon: 8.06 },
+  { name: "Chéria", wilaya: 12, lat: 35.27, lon: 7.75 },
+  { name: "Sougueur", wilaya: 14, lat: 35.19, lon: 1.5 },
+  { name: "Frenda", wilaya: 14, lat: 35.06, lon: 1.05 },
+  { name: "Lakhdaria", wilaya: 10, lat: 36.56, lon: 3.59 },
+  { name: "Sour El Ghozlane", wilaya: 10, lat: 36.15, lon: 3.69 },
+  { name: "Ras El Oued", wilaya: 34, lat: 35.95, lon: 5.03 },
+  { name: "Chelghoum Laïd", wilaya: 43, lat: 36.16, lon: 6.17 },
+  { name: "Ferdjioua", wilaya: 43, lat: 36.41, lon: 5.93 },
+  { name: "Sedrata", wilaya: 41, lat: 36.13, lon: 7.53 },
+  { name: "Kaïs", wilaya: 40, lat: 35.49, lon: 6.93 },
+  { name: "Guemar", wilaya: 39, lat: 33.49, lon: 6.8 },
+  { name: "Mécheria", wilaya: 45, lat: 33.55, lon: -0.28 },
+  { name: "Aïn Séfra", wilaya: 45, lat: 32.75, lon: -0.58 },
+  { name: "Béni Saf", wilaya: 46, lat: 35.3, lon: -1.38 },
+  { name: "Hammam Bou Hadjar", wilaya: 46, lat: 35.38, lon: -0.97 },
+  { name: "El Kala", wilaya: 36, lat: 36.9, lon: 8.44 },
+  { name: "Theniet El Had", wilaya: 38, lat: 35.87, lon: 2.03 },
+];
+
+const wilayaByCode = new Map(WILAYAS.map((w) => [w.code, w]));
+
+export const findWilaya = (code: number) => wilayaByCode.get(code);
+
+// Postal codes are five digits, the first two being the wilaya number.
+// Wilayas created in 2019 share the numbers of the ones they came from.
+const wilayaPlace = (wilaya: Wilaya): Place => ({
+  name: wilaya.name,
+  wilaya,
+  lat: wilaya.lat,
+  lon: wilaya.lon,
+  precision: "wilaya",
+});
+
+export const postalCodeMatchesWilaya = (code: string, wilaya: Wilaya) => {
+  const prefix = Number(code.trim().slice(0, 2));
+  return prefix === wilaya.code || prefix === wilaya.split_from;
+};
+
+export const wilayaForPostalCode = (code: string) => {
+  const digits = code.trim();
+  if (!/^\d{5}$/.test(digits)) return undefined;
+  return findWilaya(Number(digits.slice(0, 2)));
+};
+
+// Normalized name → place. Wilayas go in last, so a name shared by a wilaya
+// and its capital resolves to the wilaya.
+const PLACES = new Map<string, Place>();
+for (const commune of COMMUNES) {
+  const wilaya = wilayaByCode.get(commune.wilaya)!;
+  PLACES.set(normalizeText(commune.name), {
+    ...commune,
+    wilaya,
+    precision: "commune",
+  });
+}
+for (const wilaya of WILAYAS) {
+  for (const name of [wilaya.name, ...(wilaya.aliases ?? [])]) {
+    PLACES.set(normalizeText(name), wilayaPlace(wilaya));
+  }
+}
+// Longest names first, so "Sidi Bel Abbès" wins over a shorter name inside it
+const PLACE_NAMES = [...PLACES.keys()].sort((a, b) => b.length - a.length);
+
+// Finds the place a free-text location names, e.g. "Alger", "Wilaya de
+// Sétif" or "El Eulma - Sétif". Communes win over wilayas when both appear.
+export const findPlace = (text: string): Place | undefined => {
+  const normalized = normalizeText(text);
+  if (!normalized) return undefined;
+  const exact = PLACES.get(normalized);
+  if (exact) return exact;
+
+  const padded = ` ${normalized} `;
+  const found = PLACE_NAMES.filter((name) => padded.includes(` ${name} `)).map(
+    (name) => PLACES.get(name)!
+  );
+  return found.find((p) => p.precision === "commune") ?? found[0];
+};
+
+// Where an announcement is, from the most precise field that names a known
+// place: the contact's ville, the listing's location, then the postal code.
+export const locateAnnouncement = (a: Announcement): Place | undefined => {
+  const place = findPlace(a.ville ?? "") ?? findPlace(a.location);
+  if (place) return place;
+  const wilaya = wilayaForPostalCode(a.cod_postal ?? "");
+  return wilaya && wilayaPlace(wilaya);
+};
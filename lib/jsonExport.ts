@@ -0,0 +1,9 @@
+import type { Announcement } from "./types";
+
+// JSON exports carry full records, contact fields included, whatever
+// columns were picked for the tabular formats.
+export const toJSON = (rows: Announcement[]) => JSON.stringify(rows, null, 2);
+
+// One record per line, each ended by a newline; no rows is an empty file
+export const toNDJSON = (rows: Announcement[]) =>
+  rows.map((row) => `${JSON.stringify(row)}\n`).join("");
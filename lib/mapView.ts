@@ -0,0 +1,76 @@
+// Flat projection of Algeria for the announcement map. Longitudes are
+// shrunk by the cosine of the middle latitude so shapes aren't stretched.
+const BOUNDS = { west: -9, east: 12.5, south: 18.5, north: 37.5 };
+const LON_SCALE = Math.cos(
+  (((BOUNDS.north + BOUNDS.south) / 2) * Math.PI) / 180
+);
+const UNITS_PER_DEGREE = 40;
+
+export const MAP_WIDTH =
+  (BOUNDS.east - BOUNDS.west) * LON_SCALE * UNITS_PER_DEGREE;
+export const MAP_HEIGHT = (BOUNDS.north - BOUNDS.south) * UNITS_PER_DEGREE;
+
+export const MAX_ZOOM = 32;
+
+export interface MapPoint {
+  x: number;
+  y: number;
+}
+
+export interface MapView {
+  // Centre of the view in map units
+  x: number;
+  y: number;
+  zoom: number;
+}
+
+export interface Cluster<T> extends MapPoint {
+  items: T[];
+}
+
+export const FULL_VIEW: MapView = {
+  x: MAP_WIDTH / 2,
+  y: MAP_HEIGHT / 2,
+  zoom: 1,
+};
+
+export const project = (lat: number, lon: number): MapPoint => ({
+  x: (lon - BOUNDS.west) * LON_SCALE * UNITS_PER_DEGREE,
+  y: (BOUNDS.north - lat) * UNITS_PER_DEGREE,
+});
+
+export const viewBox = ({ x, y, zoom }: MapView) => {
+  const width = MAP_WIDTH / zoom;
+  const height = MAP_HEIGHT / zoom;
+  return `${x - width / 2} ${y - height / 2} ${width} ${height}`;
+};
+
+export const zoomTo = (view: MapView, zoom: number): MapView => ({
+  ...view,
+  zoom: Math.min(MAX_ZOOM, Math.max(1, zoom)),
+});
+
+// Groups points falling in the same grid cell, placing each group at the
+// average of its points. `cellSize` is in map units, so clusters split
+// apart as the view zooms in.
+export const clusterPoints = <T>(
+  points: (MapPoint & { item: T })[],
+  cellSize: number
+): Cluster<T>[] => {
+  const cells = new Map<string, { sumX: number; sumY: number; items: T[] }>();
+  for (const point of points) {
+    const key = `${Math.floor(point.x / cellSize)}:${Math.floor(
+      point.y / cellSize
+    )}`;
+    const cell = cells.get(key) ?? { sumX: 0, sumY: 0, items: [] };
+    cell.sumX += point.x;
+    cell.sumY += point.y;
+    cell.items.push(point.item);
+    cells.set(key, cell);
+  }
+  return [...cells.values()].map((cell) => ({
+    x: cell.sumX / cell.items.length,
+    y: cell.sumY / cell.items.length,
+    items: cell.items,
+  }));
+};
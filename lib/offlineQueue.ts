@@ -0,0 +1,201 @@
+import { recordActivity } from "./activity";
+import {
+  ApiError,
+  describeError,
+  getAnnouncement,
+  isNetworkError,
+  setAnnouncementStatus,
+  updateAnnouncementContact,
+} from "./api";
+import { CONTACT_FIELDS, changedContactFields, contactOf } from "./contact";
+import type { EditConflict, QueuedEdit } from "./offlineStore";
+import { checkedForStage, stageOf } from "./pipeline";
+import {
+  listQueuedEdits,
+  removeQueuedEdit,
+  updateQueuedEdit,
+} from "./offlineStore";
+import type { Announcement, ContactInfo, CurrentUser } from "./types";
+
+// The queued forms of a stage change and a contact edit, made by `user` to
+// the announcement as it is now
+export const stageEdit = (
+  announcement: Announcement,
+  stage: string,
+  label: string,
+  user: CurrentUser
+): QueuedEdit => ({
+  kind: "stage",
+  id: announcement.id,
+  title: announcement.announcement_title,
+  value: stage,
+  base: stageOf(announcement),
+  label,
+  queuedAt: new Date().toISOString(),
+  queuedBy: user,
+});
+
+export const contactEdit = (
+  announcement: Announcement,
+  contact: ContactInfo,
+  user: CurrentUser
+): QueuedEdit => ({
+  kind: "contact",
+  id: announcement.id,
+  title: announcement.announcement_title,
+  value: contact,
+  base: contactOf(announcement),
+  queuedAt: new Date().toISOString(),
+  queuedBy: user,
+});
+
+export interface ReplayResult {
+  applied: QueuedEdit[];
+  // Edits still waiting, with conflicts or errors noted on them
+  remaining: QueuedEdit[];
+  // The backend is still unreachable, so replaying stopped early
+  offline: boolean;
+}
+
+// Fields the edit changed that someone else also changed, to something else,
+// since it was queued
+const findConflicts = (
+  edit: QueuedEdit,
+  server: Announcement
+): EditConflict[] => {
+  if (edit.kind === "stage") {
+    const stage = stageOf(server);
+    return stage !== edit.base && stage !== edit.value
+      ? [{ field: "status", server: stage, mine: edit.value }]
+      : [];
+  }
+  const current = contactOf(server);
+  return CONTACT_FIELDS.filter(
+    ({ key }) =>
+      edit.value[key] !== edit.base[key] &&
+      current[key] !== edit.base[key] &&
+      current[key] !== edit.value[key]
+  ).map(({ key }) => ({
+    field: key,
+    server: current[key],
+    mine: edit.value[key],
+  }));
+};
+
+// Sends one edit. Contact edits only overwrite the fields they changed, so
+// changes made on the server to other fields survive.
+const applyEdit = async (edit: QueuedEdit, server: Announcement | null) => {
+  if (edit.kind === "stage") {
+    await setAnnouncementStatus(edit.id, edit.value);
+    recordActivity(edit.id, `Moved to ${edit.label}`, ["status"]);
+    return;
+  }
+  const current = server ? contactOf(server) : edit.base;
+  const contact = { ...current };
+  for (const { key } of CONTACT_FIELDS) {
+    if (edit.value[key] !== edit.base[key]) contact[key] = edit.value[key];
+  }
+  await updateAnnouncementContact(edit.id, contact);
+  recordActivity(
+    edit.id,
+    "Edited contact",
+    changedContactFields(current, contact)
+  );
+};
+
+// Backends without a single-announcement endpoint answer 404; the edit is
+// then sent without checking for conflicts.
+const loadCurrent = async (id: number) => {
+  try {
+    return await getAnnouncement(id);
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 404) return null;
+    throw error;
+  }
+};
+
+// Sends one edit unless it conflicts, or regardless with `force`. Returns
+// the edit as it should stay queued, or null once it went through.
+export const replayEdit = async (
+  edit: QueuedEdit,
+  force = false
+): Promise<QueuedEdit | null> => {
+  try {
+    const server = await loadCurrent(edit.id);
+    const conflicts = server && !force ? findConflicts(edit, server) : [];
+    if (conflicts.length > 0) {
+      const noted = { ...edit, conflicts, error: undefined };
+      await updateQueuedEdit(noted);
+      return noted;
+    }
+    await applyEdit(edit, server);
+    if (edit.seq !== undefined) await removeQueuedEdit(edit.seq);
+    return null;
+  } catch (error) {
+    if (isNetworkError(error)) throw error;
+    console.error("Error replaying queued edit:", error);
+    const noted = { ...edit, error: describeError(error) };
+    await updateQueuedEdit(noted);
+    return noted;
+  }
+};
+
+// Replays the queue oldest first. Edits with conflicts stay queued until the
+// user picks a side. The backend logs each change under the session's user,
+// so edits someone else queued in this browser wait for them to sign in.
+export const replayQueuedEdits = async (
+  user: CurrentUser
+): Promise<ReplayResult> => {
+  const queued = await listQueuedEdits();
+  const applied: QueuedEdit[] = [];
+  for (const [index, edit] of queued.entries()) {
+    if (edit.conflicts?.length) continue;
+    if (edit.queuedBy.name !== user.name) {
+      const author = edit.queuedBy.name || "another user";
+      queued[index] = {
+        ...edit,
+        error: `Made by ${author}; it is sent once they sign in here`,
+      };
+      continue;
+    }
+    try {
+      const remaining = await replayEdit(edit);
+      if (remaining) queued[index] = remaining;
+      else applied.push(edit);
+    } catch (error) {
+      console.error("Backend still unreachable:", error);
+      return {
+        applied,
+        remaining: queued.filter((e) => !applied.includes(e)),
+        offline: true,
+      };
+    }
+  }
+  return {
+    applied,
+    remaining: queued.filter((e) => !applied.includes(e)),
+    offline: false,
+  };
+};
+
+// Shows edits that haven't reached the backend yet on announcements loaded
+// from it or from the offline snapshot. Conflicting ones wait for the user.
+export const withQueuedEdits = (
+  announcements: Announcement[],
+  queued: QueuedEdit[]
+) =>
+  announcements.map((announcement) =>
+    queued
+      .filter((e) => e.id === announcement.id && !e.conflicts?.length)
+      .reduce<Announcement>(
+        (current, edit) =>
+          edit.kind === "stage"
+            ? {
+                ...current,
+                status: edit.value,
+                checked: checkedForStage(edit.value),
+              }
+            : { ...current, ...edit.value },
+        announcement
+      )
+  );
@@ -0,0 +1,105 @@
+import type { ContactField } from "./contact";
+import type { ContactInfo, CurrentUser } from "./types";
+
+// IndexedDB holds the last announcements and stats the dashboard loaded, so
+// they can still be shown when the backend is unreachable, and the edits made
+// in the meantime until they can be sent.
+
+const DB_NAME = "espaceagro";
+const DB_VERSION = 1;
+const SNAPSHOTS = "snapshots";
+const OUTBOX = "outbox";
+
+export interface Snapshot<T> {
+  key: string;
+  savedAt: string;
+  data: T;
+}
+
+export interface EditConflict {
+  field: ContactField | "status";
+  server: string;
+  mine: string;
+}
+
+interface QueuedEditBase {
+  // Queue position, assigned by IndexedDB
+  seq?: number;
+  id: number;
+  title: string;
+  queuedAt: string;
+  // Who made the edit; only their session sends it, so the activity log,
+  // which the backend fills from the session, names them
+  queuedBy: CurrentUser;
+  // Fields someone else changed since, found when replaying
+  conflicts?: EditConflict[];
+  // Why the backend refused it, when it did
+  error?: string;
+}
+
+// `base` is what the record held when the edit was made, so replaying can
+// tell the edit apart from changes made on the server in between.
+export type QueuedEdit = QueuedEditBase &
+  // `label` names the stage moved to, for the activity log
+  (| { kind: "stage"; value: string; base: string; label: string }
+    | { kind: "contact"; value: ContactInfo; base: ContactInfo }
+  );
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  database ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(SNAPSHOTS, { keyPath: "key" });
+      request.result.createObjectStore(OUTBOX, {
+        keyPath: "seq",
+        autoIncrement: true,
+      });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      database = null;
+      reject(request.error);
+    };
+  });
+  return database;
+};
+
+const withStore = async <T>(
+  name: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+) => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const request = action(db.transaction(name, mode).objectStore(name));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const isOfflineStoreAvailable = () => typeof indexedDB !== "undefined";
+
+export const saveSnapshot = <T>(key: string, data: T) =>
+  withStore(SNAPSHOTS, "readwrite", (store) =>
+    store.put({ key, savedAt: new Date().toISOString(), data })
+  );
+
+export const loadSnapshot = <T>(key: string) =>
+  withStore<Snapshot<T> | undefined>(SNAPSHOTS, "readonly", (store) =>
+    store.get(key)
+  );
+
+export const queueEdit = (edit: QueuedEdit) =>
+  withStore(OUTBOX, "readwrite", (store) => store.add(edit));
+
+// Oldest first, the order they are replayed in
+export const listQueuedEdits = () =>
+  withStore<QueuedEdit[]>(OUTBOX, "readonly", (store) => store.getAll());
+
+export const updateQueuedEdit = (edit: QueuedEdit) =>
+  withStore(OUTBOX, "readwrite", (store) => store.put(edit));
+
+export const removeQueuedEdit = (seq: number) =>
+  withStore(OUTBOX, "readwrite", (store) => store.delete(seq));
@@ -0,0 +1,38 @@
+export type Role = "viewer" | "editor" | "admin";
+
+export type Permission =
+  | "scrape:run"
+  | "announcement:edit"
+  | "announcement:export"
+  | "schedule:manage"
+  | "announcement:delete"
+  | "pipeline:manage";
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  viewer: [],
+  editor: ["scrape:run", "announcement:edit", "announcement:export"],
+  admin: [
+    "scrape:run",
+    "announcement:edit",
+    "announcement:export",
+    "schedule:manage",
+    "announcement:delete",
+    "pipeline:manage",
+  ],
+};
+
+export const ROLES: Role[] = ["viewer", "editor", "admin"];
+
+export const isRole = (value: unknown): value is Role =>
+  ROLES.includes(value as Role);
+
+export const can = (role: Role, permission: Permission) =>
+  ROLE_PERMISSIONS[role].includes(permission);
+
+// Role used when the backend doesn't report one. Keeps the old behaviour of
+// hiding scraping controls in production builds unless configured otherwise.
+export const FALLBACK_ROLE: Role = isRole(process.env.NEXT_PUBLIC_DEFAULT_ROLE)
+  ? process.env.NEXT_PUBLIC_DEFAULT_ROLE
+  : process.env.NODE_ENV === "production"
+  ? "viewer"
+  : "admin";
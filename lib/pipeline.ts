@@ -0,0 +1,104 @@
+import { normalizeText } from "./text";
+import type { Announcement } from "./types";
+
+export type StageColor =
+  | "gray"
+  | "blue"
+  | "purple"
+  | "yellow"
+  | "orange"
+  | "green"
+  | "red"
+  | "teal";
+
+export interface PipelineStage {
+  id: string;
+  label: string;
+  color: StageColor;
+}
+
+// Announcements from before the pipeline existed only have `checked`:
+// unchecked ones start in NEW_STAGE and checked ones in REVIEWED_STAGE. Both
+// stages are always kept so those records have somewhere to be.
+export const NEW_STAGE = "new";
+export const REVIEWED_STAGE = "reviewed";
+
+export const DEFAULT_STAGES: PipelineStage[] = [
+  { id: NEW_STAGE, label: "New", color: "gray" },
+  { id: REVIEWED_STAGE, label: "Reviewed", color: "blue" },
+  { id: "contacted", label: "Contacted", color: "purple" },
+  { id: "negotiating", label: "Negotiating", color: "yellow" },
+  { id: "won", label: "Won", color: "green" },
+  { id: "lost", label: "Lost", color: "red" },
+];
+
+export const STAGE_COLORS: StageColor[] = [
+  "gray",
+  "blue",
+  "purple",
+  "yellow",
+  "orange",
+  "green",
+  "red",
+  "teal",
+];
+
+// Full class names so Tailwind keeps them in the build
+export const STAGE_STYLES: Record<StageColor, { badge: string; card: string }> =
+  {
+    gray: { badge: "bg-gray-100 text-gray-800", card: "bg-gray-50" },
+    blue: { badge: "bg-blue-100 text-blue-800", card: "bg-blue-50" },
+    purple: { badge: "bg-purple-100 text-purple-800", card: "bg-purple-50" },
+    yellow: { badge: "bg-yellow-100 text-yellow-800", card: "bg-yellow-50" },
+    orange: { badge: "bg-orange-100 text-orange-800", card: "bg-orange-50" },
+    green: { badge: "bg-green-100 text-green-800", card: "bg-green-50" },
+    red: { badge: "bg-red-100 text-red-800", card: "bg-red-50" },
+    teal: { badge: "bg-teal-100 text-teal-800", card: "bg-teal-50" },
+  };
+
+export const isStageColor = (value: unknown): value is StageColor =>
+  STAGE_COLORS.includes(value as StageColor);
+
+export const stageOf = (announcement: Announcement) =>
+  announcement.status || (announcement.checked ? REVIEWED_STAGE : NEW_STAGE);
+
+export const isFixedStage = (id: string) =>
+  id === NEW_STAGE || id === REVIEWED_STAGE;
+
+// Looks a stage up by id. Records can point at a stage that was since
+// removed from the pipeline; they get a plain stand-in named after the id.
+export const findStage = (stages: PipelineStage[], id: string): PipelineStage =>
+  stages.find((s) => s.id === id) ?? { id, label: id, color: "gray" };
+
+// Moving an announcement past the first stage counts as reviewing it, so
+// `checked` stays meaningful for the parts of the app that still use it. It
+// is always derived from the stage, never set on its own.
+export const checkedForStage = (id: string) => (id === NEW_STAGE ? 0 : 1);
+
+// The stage the checkbox moves a record to. Checking only moves new records
+// on; unchecking sends any record back to the start.
+export const stageForChecked = (
+  announcement: Announcement,
+  checked: number
+) => {
+  const stage = stageOf(announcement);
+  if (!checked) return NEW_STAGE;
+  return stage === NEW_STAGE ? REVIEWED_STAGE : stage;
+};
+
+// Turns a label into an id for a new stage, unique within the pipeline.
+export const stageIdFor = (label: string, stages: PipelineStage[]) => {
+  const base = normalizeText(label).replace(/ /g, "-") || "stage";
+  let id = base;
+  for (let n = 2; stages.some((s) => s.id === id); n++) id = `${base}-${n}`;
+  return id;
+};
+
+export const countByStage = (announcements: Announcement[]) => {
+  const counts: Record<string, number> = {};
+  for (const announcement of announcements) {
+    const stage = stageOf(announcement);
+    counts[stage] = (counts[stage] ?? 0) + 1;
+  }
+  return counts;
+};
@@ -0,0 +1,102 @@
+import { DEFAULT_PAGE_SIZE } from "./filters";
+import type { AnnouncementFilters, SortState } from "./filters";
+import { readQuery, writeQuery } from "./urlState";
+
+// A view stores its filters and sort in the same query-string form the
+// dashboard URL uses, so restoring one goes through the same validation.
+export interface SavedView {
+  id: string;
+  name: string;
+  query: string;
+}
+
+const STORAGE_KEY = "espaceagro.savedViews";
+const EXPORT_VERSION = 1;
+
+const newId = () =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+export const createView = (
+  name: string,
+  filters: AnnouncementFilters,
+  sort: SortState | null
+): SavedView => ({
+  id: newId(),
+  name,
+  query: writeQuery({ filters, sort, page: 1, pageSize: DEFAULT_PAGE_SIZE }),
+});
+
+export const viewQuery = (view: SavedView) =>
+  readQuery(new URLSearchParams(view.query));
+
+export const viewMatches = (
+  view: SavedView,
+  filters: AnnouncementFilters,
+  sort: SortState | null
+) =>
+  view.query ===
+  writeQuery({ filters, sort, page: 1, pageSize: DEFAULT_PAGE_SIZE });
+
+// Accepts both the export file format and a bare array of views. Ids are
+// regenerated so imported views never collide with existing ones.
+export const parseViews = (data: unknown): SavedView[] => {
+  const list =
+    data && typeof data === "object" && !Array.isArray(data)
+      ? (data as Record<string, unknown>).views
+      : data;
+  if (!Array.isArray(list)) {
+    throw new Error("Expected a list of views");
+  }
+  return list.map((item, index) => {
+    const record = item as Record<string, unknown> | null;
+    if (
+      !record ||
+      typeof record.name !== "string" ||
+      record.name.trim() === "" ||
+      typeof record.query !== "string"
+    ) {
+      throw new Error(`View ${index + 1} needs a name and a query`);
+    }
+    const { filters, sort } = readQuery(new URLSearchParams(record.query));
+    return createView(record.name.trim(), filters, sort);
+  });
+};
+
+export const loadViews = (): SavedView[] => {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    if (!stored) return [];
+    const parsed = JSON.parse(stored);
+    return Array.isArray(parsed)
+      ? parsed.filter(
+          (view): view is SavedView =>
+            typeof view?.id === "string" &&
+            typeof view?.name === "string" &&
+            typeof view?.query === "string"
+        )
+      : [];
+  } catch (error) {
+    console.error("Error loading saved views:", error);
+    return [];
+  }
+};
+
+export const storeViews = (views: SavedView[]) => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(views));
+  } catch (error) {
+    console.error("Error storing saved views:", error);
+  }
+};
+
+export const exportViews = (views: SavedView[]) =>
+  JSON.stringify(
+    {
+      version: EXPORT_VERSION,
+      views: views.map(({ name, query }) => ({ name, query })),
+    },
+    null,
+    2
+  );
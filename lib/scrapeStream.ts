@@ -0,0 +1,150 @@
+import {
+  API_URL,
+  ApiValidationError,
+  getScrapeStatus,
+  getScrapeStreamTicket,
+  parseAnnouncement,
+  parseScrapeStatus,
+} from "./api";
+import { getSessionToken } from "./session";
+import type { Announcement, ScrapeStatus } from "./types";
+
+const POLL_INTERVAL_MS = 2000;
+
+export interface ScrapeWatchHandlers {
+  onStatus: (status: ScrapeStatus) => void;
+  // Only called when the backend streams individual announcements.
+  onAnnouncement: (announcement: Announcement) => void;
+  onDone: (status: ScrapeStatus) => void;
+  onError: (error: unknown) => void;
+}
+
+export type ScrapeTransport = "stream" | "polling";
+
+const parseEvent = <T>(event: MessageEvent, parse: (data: unknown) => T) => {
+  try {
+    return parse(JSON.parse(event.data));
+  } catch (error) {
+    if (error instanceof ApiValidationError) throw error;
+    throw new ApiValidationError(`Malformed scrape event: ${event.data}`);
+  }
+};
+
+const pollStatus = (handlers: ScrapeWatchHandlers) => {
+  let stopped = false;
+  const timer = setInterval(async () => {
+    try {
+      const status = await getScrapeStatus();
+      if (stopped) return;
+      handlers.onStatus(status);
+      if (!status.running) {
+        stop();
+        handlers.onDone(status);
+      }
+    } catch (error) {
+      if (!stopped) handlers.onError(error);
+    }
+  }, POLL_INTERVAL_MS);
+  const stop = () => {
+    stopped = true;
+    clearInterval(timer);
+  };
+  return stop;
+};
+
+// Follows a running scrape. Uses the server-sent event stream at
+// /api/scrape/events when the backend offers it and falls back to polling
+// /api/scrape/status otherwise. Returns a function that stops watching.
+export const watchScrape = (
+  handlers: ScrapeWatchHandlers,
+  onTransport?: (transport: ScrapeTransport) => void
+): (() => void) => {
+  let stopped = false;
+  let source: EventSource | null = null;
+  let stopPolling: (() => void) | null = null;
+
+  const close = () => {
+    stopped = true;
+    source?.close();
+    stopPolling?.();
+  };
+
+  const fallBackToPolling = () => {
+    onTransport?.("polling");
+    stopPolling = pollStatus(handlers);
+  };
+
+  const listen = (url: string) => {
+    const stream = new EventSource(url);
+    source = stream;
+    let opened = false;
+
+    stream.onopen = () => {
+      opened = true;
+      onTransport?.("stream");
+    };
+
+    // An error before the stream ever opened means the endpoint doesn't
+    // exist. After that, EventSource reconnects on its own.
+    stream.onerror = () => {
+      if (opened) return;
+      stream.close();
+      fallBackToPolling();
+    };
+
+    stream.addEventListener("status", (event) => {
+      try {
+        handlers.onStatus(parseEvent(event as MessageEvent, parseScrapeStatus));
+      } catch (error) {
+        handlers.onError(error);
+      }
+    });
+
+    stream.addEventListener("announcement", (event) => {
+      try {
+        handlers.onAnnouncement(
+          parseEvent(event as MessageEvent, parseAnnouncement)
+        );
+      } catch (error) {
+        handlers.onError(error);
+      }
+    });
+
+    stream.addEventListener("done", (event) => {
+      close();
+      let status: ScrapeStatus;
+      try {
+        status = parseEvent(event as MessageEvent, parseScrapeStatus);
+      } catch (error) {
+        handlers.onError(error);
+        status = { running: false, message: "Scraping finished." };
+      }
+      handlers.onDone(status);
+    });
+  };
+
+  // EventSource can't send headers, and the session token must stay out of
+  // URLs, so a signed-in stream is opened with a one-off ticket instead.
+  // Backends that can't issue one are polled.
+  const open = async () => {
+    if (!getSessionToken()) {
+      listen(`${API_URL}/api/scrape/events`);
+      return;
+    }
+    try {
+      const ticket = await getScrapeStreamTicket();
+      if (!stopped) {
+        listen(
+          `${API_URL}/api/scrape/events?ticket=${encodeURIComponent(ticket)}`
+        );
+      }
+    } catch (error) {
+      console.error("Error getting a scrape stream ticket:", error);
+      if (!stopped) fallBackToPolling();
+    }
+  };
+
+  if (typeof EventSource === "undefined") fallBackToPolling();
+  else open();
+  return close;
+};
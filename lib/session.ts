@@ -0,0 +1,37 @@
+// The session token lives in a cookie so the middleware can check it before
+// a page renders. It isn't HttpOnly: the client reads it to authenticate its
+// calls to the backend, which runs on another origin.
+export const SESSION_COOKIE = "espaceagro_session";
+
+export const LOGIN_PATH = "/login";
+
+// Backends without accounts set NEXT_PUBLIC_AUTH_DISABLED=true: nobody is
+// sent to log in, and everyone gets the fallback role.
+export const AUTH_ENABLED = process.env.NEXT_PUBLIC_AUTH_DISABLED !== "true";
+
+export const getSessionToken = (): string | null => {
+  if (typeof document === "undefined") return null;
+  const prefix = `${SESSION_COOKIE}=`;
+  const cookie = document.cookie
+    .split("; ")
+    .find((part) => part.startsWith(prefix));
+  return cookie ? decodeURIComponent(cookie.slice(prefix.length)) : null;
+};
+
+export const storeSession = (token: string, maxAgeSeconds: number) => {
+  const secure = window.location.protocol === "https:" ? "; Secure" : "";
+  document.cookie = `${SESSION_COOKIE}=${encodeURIComponent(
+    token
+  )}; Path=/; Max-Age=${maxAgeSeconds}; SameSite=Lax${secure}`;
+};
+
+export const clearSession = () => {
+  document.cookie = `${SESSION_COOKIE}=; Path=/; Max-Age=0; SameSite=Lax`;
+};
+
+// Sends the browser to the login page, coming back to the current page after.
+export const redirectToLogin = () => {
+  const here = window.location.pathname + window.location.search;
+  if (window.location.pathname === LOGIN_PATH) return;
+  window.location.assign(`${LOGIN_PATH}?next=${encodeURIComponent(here)}`);
+};
@@ -0,0 +1,9 @@
+// Lowercased, accent-free and punctuation-free, so "Téléphone" matches
+// "telephone" and "SARL  Agro-Sud" matches "sarl agro sud".
+export const normalizeText = (value: string) =>
+  value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
@@ -0,0 +1,33 @@
+"use client";
+
+import { createContext, useContext } from "react";
+
+export type ToastTone = "success" | "error" | "info";
+
+export interface ToastAction {
+  label: string;
+  onClick: () => void;
+}
+
+export interface Toast {
+  id: number;
+  tone: ToastTone;
+  message: string;
+  action?: ToastAction;
+}
+
+export const ToastContext = createContext<
+  (tone: ToastTone, message: string, action?: ToastAction) => void
+>((tone, message) => console.warn(`Toast outside ToastProvider: ${message}`));
+
+// Short-lived messages shown over the page, for outcomes of actions that
+// don't have a place of their own on it
+export const useToast = () => {
+  const show = useContext(ToastContext);
+  return {
+    info: (message: string) => show("info", message),
+    success: (message: string) => show("success", message),
+    error: (message: string, action?: ToastAction) =>
+      show("error", message, action),
+  };
+};
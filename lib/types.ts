@@ -0,0 +1,140 @@
+import type { Role } from "./permissions";
+
+export interface Announcement {
+  id: number;
+  member_id: string;
+  company_name: string;
+  announcement_title: string;
+  description: string;
+  products: string;
+  location: string;
+  announcement_type: string;
+  announcement_date: string;
+  announcement_url: string;
+  scraped_date: string;
+  checked: number;
+  created_at: string;
+  // Contact information fields
+  prenom?: string;
+  adresse?: string;
+  cod_postal?: string;
+  ville?: string;
+  mail?: string;
+  tel?: string;
+  web_site?: string;
+  ok?: string;
+  // Set when the record was merged into another announcement
+  duplicate_of?: number;
+  // Pipeline stage id; records from before the pipeline don't have one
+  status?: string;
+  // Day to follow up on the lead, yyyy-mm-dd
+  follow_up_date?: string;
+}
+
+export interface Stats {
+  total: number;
+  checked: number;
+  unchecked: number;
+  today: number;
+  // Announcements per pipeline stage id, from backends that count them
+  stages?: Record<string, number>;
+}
+
+export interface ContactInfo {
+  prenom: string;
+  adresse: string;
+  cod_postal: string;
+  ville: string;
+  mail: string;
+  tel: string;
+  web_site: string;
+  ok: string;
+}
+
+// One entry in an announcement's timeline: a scrape run that saw it, or a
+// change made from the dashboard.
+export interface AnnouncementEvent {
+  at: string;
+  kind: "sighting" | "edit";
+  run_id?: number;
+  // Fields an edit changed
+  fields: string[];
+  // What an edit did, e.g. "Marked checked"
+  summary?: string;
+  user?: string;
+}
+
+// A change made from the dashboard, sent to the activity log
+export interface ActivityEntry {
+  summary: string;
+  fields: string[];
+}
+
+export interface AnnouncementNote {
+  id: number;
+  text: string;
+  created_at: string;
+  author?: string;
+}
+
+export interface ScrapeStatus {
+  running: boolean;
+  message: string;
+  // Progress counters, reported by backends that track them
+  pages_visited?: number;
+  announcements_found?: number;
+  new_count?: number;
+  duplicate_count?: number;
+  errors?: string[];
+  // True when the run ended because it was cancelled
+  cancelled?: boolean;
+  started_at?: string;
+  finished_at?: string;
+}
+
+export interface RunChange {
+  announcement_id: number;
+  change: "new" | "updated";
+  // Fields that differ from the previous sighting, for updated announcements
+  changed_fields: string[];
+}
+
+export interface ScrapeRun {
+  id: number;
+  started_at: string;
+  finished_at?: string;
+  trigger: "manual" | "scheduled";
+  status: "running" | "completed" | "failed" | "cancelled";
+  new_count: number;
+  updated_count: number;
+  unchanged_count: number;
+  errors: string[];
+}
+
+export interface ScrapeRunDetail extends ScrapeRun {
+  changes: RunChange[];
+}
+
+export interface CurrentUser {
+  name: string;
+  role: Role;
+}
+
+export interface ScrapeSchedule {
+  id: number;
+  name: string;
+  cron: string;
+  // Empty lists mean every type / category
+  announcement_types: string[];
+  categories: string[];
+  paused: boolean;
+  next_run_at?: string;
+  last_run_id?: number;
+  last_run_status?: ScrapeRun["status"];
+  last_run_at?: string;
+}
+
+export type ScrapeScheduleInput = Omit<
+  ScrapeSchedule,
+  "id" | "next_run_at" | "last_run_id" | "last_run_status" | "last_run_at"
+>;
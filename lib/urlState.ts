@@ -0,0 +1,101 @@
+import type { AnnouncementQuery } from "./api";
+import {
+  DEFAULT_FILTERS,
+  DEFAULT_PAGE_SIZE,
+  PAGE_SIZES,
+  SORT_FIELDS,
+} from "./filters";
+import type { AnnouncementFilters, SortField, SortState } from "./filters";
+
+// Query-string keys for each filter. Defaults are left out of the URL so a
+// clean dashboard keeps a clean address.
+const FILTER_PARAMS: Record<keyof AnnouncementFilters, string> = {
+  search: "q",
+  type: "type",
+  location: "location",
+  product: "product",
+  status: "status",
+  stage: "stage",
+  dateFrom: "from",
+  dateTo: "to",
+  company: "company",
+  member: "member",
+  run: "run",
+  followUp: "follow_up",
+};
+
+const FILTER_KEYS = Object.keys(FILTER_PARAMS) as (keyof AnnouncementFilters)[];
+
+const STATUS_VALUES = ["all", "checked", "unchecked"];
+
+interface ReadableParams {
+  get(name: string): string | null;
+}
+
+const readPositiveInt = (value: string | null) => {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : null;
+};
+
+export const readQuery = (params: ReadableParams): AnnouncementQuery => {
+  const filters = { ...DEFAULT_FILTERS };
+  for (const key of FILTER_KEYS) {
+    const value = params.get(FILTER_PARAMS[key]);
+    if (value !== null && value !== "") filters[key] = value;
+  }
+  if (!STATUS_VALUES.includes(filters.status)) {
+    filters.status = DEFAULT_FILTERS.status;
+  }
+
+  const sortField = params.get("sort");
+  const sort: SortState | null = SORT_FIELDS.includes(sortField as SortField)
+    ? {
+        field: sortField as SortField,
+        direction: params.get("order") === "desc" ? "desc" : "asc",
+      }
+    : null;
+
+  const pageSize = readPositiveInt(params.get("size"));
+
+  return {
+    filters,
+    sort,
+    page: readPositiveInt(params.get("page")) ?? 1,
+    pageSize:
+      pageSize !== null && PAGE_SIZES.includes(pageSize)
+        ? pageSize
+        : DEFAULT_PAGE_SIZE,
+  };
+};
+
+export const writeQuery = ({
+  filters,
+  sort,
+  page,
+  pageSize,
+}: AnnouncementQuery) => {
+  const params = new URLSearchParams();
+  for (const key of FILTER_KEYS) {
+    if (filters[key] !== DEFAULT_FILTERS[key]) {
+      params.set(FILTER_PARAMS[key], filters[key]);
+    }
+  }
+  if (sort) {
+    params.set("sort", sort.field);
+    params.set("order", sort.direction);
+  }
+  if (page !== 1) params.set("page", String(page));
+  if (pageSize !== DEFAULT_PAGE_SIZE) params.set("size", String(pageSize));
+  return params.toString();
+};
+
+// Link to the dashboard with only the given filters applied
+export const dashboardHref = (filters: Partial<AnnouncementFilters>) => {
+  const query = writeQuery({
+    filters: { ...DEFAULT_FILTERS, ...filters },
+    sort: null,
+    page: 1,
+    pageSize: DEFAULT_PAGE_SIZE,
+  });
+  return query ? `/?${query}` : "/";
+};
@@ -0,0 +1,20 @@
+"use client";
+
+import { createContext, useContext } from "react";
+import type { CurrentUser } from "./types";
+
+export interface CurrentUserState {
+  user: CurrentUser;
+  // The backend answered, or failed to
+  loaded: boolean;
+}
+
+// Until the user is loaded, and if loading fails, they are treated as a
+// viewer so nothing privileged flashes on screen.
+export const CurrentUserContext = createContext<CurrentUserState>({
+  user: { name: "", role: "viewer" },
+  loaded: false,
+});
+
+// The signed-in user, loaded once for the whole app by CurrentUserProvider
+export const useCurrentUser = () => useContext(CurrentUserContext);
@@ -0,0 +1,151 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { isNetworkError } from "./api";
+import { replayEdit, replayQueuedEdits } from "./offlineQueue";
+import { can } from "./permissions";
+import {
+  isOfflineStoreAvailable,
+  listQueuedEdits,
+  queueEdit,
+  removeQueuedEdit,
+} from "./offlineStore";
+import type { QueuedEdit } from "./offlineStore";
+import type { CurrentUser } from "./types";
+
+// First retry after the backend was unreachable; each one after waits twice
+// as long, up to RETRY_MAX_MS
+const RETRY_MS = 5000;
+const RETRY_MAX_MS = 5 * 60 * 1000;
+
+// Edits made while the backend was unreachable. Once the signed-in user is
+// known, and if they may edit, they are replayed, again whenever the browser
+// comes back online, after the next edit that reaches the backend, on a
+// timer that backs off while it stays unreachable, and on demand; `onSynced`
+// runs after any of them went through so the caller can reload.
+export const useOfflineQueue = (
+  user: CurrentUser,
+  userLoaded: boolean,
+  onSynced: () => void
+) => {
+  const [queued, setQueued] = useState<QueuedEdit[]>([]);
+  const [syncing, setSyncing] = useState(false);
+  // The last edit or replay couldn't reach the backend
+  const [offline, setOffline] = useState(false);
+  const syncingRef = useRef(false);
+  const queuedRef = useRef(queued);
+  const onSyncedRef = useRef(onSynced);
+  const retryRef = useRef<{
+    timer?: ReturnType<typeof setTimeout>;
+    attempts: number;
+  }>({ attempts: 0 });
+  const canReplay = userLoaded && can(user.role, "announcement:edit");
+  const canReplayRef = useRef(canReplay);
+  const userRef = useRef(user);
+
+  useEffect(() => {
+    onSyncedRef.current = onSynced;
+    userRef.current = user;
+    queuedRef.current = queued;
+    canReplayRef.current = canReplay;
+  });
+
+  const scheduleRetry = () => {
+    const retry = retryRef.current;
+    clearTimeout(retry.timer);
+    const delay = Math.min(RETRY_MS * 2 ** retry.attempts, RETRY_MAX_MS);
+    retry.attempts += 1;
+    retry.timer = setTimeout(() => {
+      if (canReplayRef.current) replay();
+    }, delay);
+  };
+
+  const stopRetrying = () => {
+    clearTimeout(retryRef.current.timer);
+    retryRef.current = { attempts: 0 };
+  };
+
+  const replay = async () => {
+    if (!isOfflineStoreAvailable() || syncingRef.current) return;
+    try {
+      syncingRef.current = true;
+      setSyncing(true);
+      const result = await replayQueuedEdits(userRef.current);
+      setQueued(result.remaining);
+      setOffline(result.offline);
+      if (result.offline) scheduleRetry();
+      else stopRetrying();
+      if (result.applied.length > 0) onSyncedRef.current();
+    } catch (error) {
+      console.error("Error replaying queued edits:", error);
+    } finally {
+      syncingRef.current = false;
+      setSyncing(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!isOfflineStoreAvailable()) return;
+    listQueuedEdits()
+      .then(setQueued)
+      .catch((error) => {
+        console.error("Error loading queued edits:", error);
+      });
+    const goOffline = () => setOffline(true);
+    window.addEventListener("offline", goOffline);
+    return () => {
+      window.removeEventListener("offline", goOffline);
+      clearTimeout(retryRef.current.timer);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!canReplay) return;
+    replay();
+    window.addEventListener("online", replay);
+    return () => window.removeEventListener("online", replay);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [canReplay]);
+
+  const enqueue = async (edit: QueuedEdit) => {
+    await queueEdit(edit);
+    setQueued(await listQueuedEdits());
+  };
+
+  // Sends an edit, or queues it when the backend can't be reached. Throws
+  // what the backend answered, or the network error when the browser can't
+  // store the edit either.
+  const sendOrQueue = async (send: () => Promise<void>, edit: QueuedEdit) => {
+    try {
+      await send();
+    } catch (error) {
+      if (!isNetworkError(error) || !isOfflineStoreAvailable()) throw error;
+      try {
+        await enqueue(edit);
+      } catch (queueError) {
+        console.error("Error queueing edit:", queueError);
+        throw error;
+      }
+      setOffline(true);
+      scheduleRetry();
+      return "queued" as const;
+    }
+    setOffline(false);
+    // The backend is back, so what waited can go too
+    if (queuedRef.current.length > 0 && canReplayRef.current) replay();
+    return "sent" as const;
+  };
+
+  // Settles a conflict: "mine" sends the queued edit over the server's
+  // changes, "theirs" drops it.
+  const resolve = async (edit: QueuedEdit, keep: "mine" | "theirs") => {
+    const remaining = keep === "mine" ? await replayEdit(edit, true) : null;
+    if (keep === "theirs" && edit.seq !== undefined) {
+      await removeQueuedEdit(edit.seq);
+    }
+    setQueued(await listQueuedEdits());
+    if (!remaining) onSyncedRef.current();
+  };
+
+  return { queued, syncing, offline, sendOrQueue, replay, resolve };
+};
@@ -0,0 +1,25 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { getPipelineStages, isAbortError } from "./api";
+import { DEFAULT_STAGES } from "./pipeline";
+import type { PipelineStage } from "./pipeline";
+
+// Loads the configured pipeline. The default stages stand in until it
+// answers, and if it fails.
+export const usePipelineStages = () => {
+  const [stages, setStages] = useState<PipelineStage[]>(DEFAULT_STAGES);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    getPipelineStages({ signal: controller.signal })
+      .then(setStages)
+      .catch((error) => {
+        if (isAbortError(error)) return;
+        console.error("Error fetching pipeline stages:", error);
+      });
+    return () => controller.abort();
+  }, []);
+
+  return { stages, setStages };
+};
@@ -0,0 +1,28 @@
+"use client";
+
+import { useState } from "react";
+import {
+  loadRejectedSuggestions,
+  storeRejectedSuggestions,
+  suggestionKey,
+} from "./contactExtraction";
+import type { ContactSuggestion } from "./contactExtraction";
+
+// Suggestions the user turned down, shared by every place that offers them
+export const useRejectedSuggestions = () => {
+  const [rejected, setRejected] = useState<Set<string>>(() =>
+    typeof window === "undefined" ? new Set() : loadRejectedSuggestions()
+  );
+
+  const reject = (suggestions: ContactSuggestion[]) => {
+    const next = new Set(rejected);
+    for (const suggestion of suggestions) next.add(suggestionKey(suggestion));
+    setRejected(next);
+    storeRejectedSuggestions(next);
+  };
+
+  const withoutRejected = (suggestions: ContactSuggestion[]) =>
+    suggestions.filter((s) => !rejected.has(suggestionKey(s)));
+
+  return { reject, withoutRejected };
+};
@@ -0,0 +1,112 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { describeError } from "./api";
+import { useToast } from "./toast";
+
+export type RowSave =
+  | { status: "pending" }
+  | { status: "saved" }
+  | { status: "error"; message: string; retry: () => void };
+
+export interface OptimisticChange {
+  // Shows the change right away
+  apply: () => void;
+  // Puts the row back as it was when sending fails
+  rollback: () => void;
+  // Resolves to "queued" when the change was kept to send later instead
+  send: () => Promise<void | "queued">;
+  // Start of the error message, e.g. "Could not change stage"
+  failure: string;
+}
+
+// How long the saved tick stays on a row
+const SAVED_MS = 2000;
+
+// Saves changes to rows optimistically and tracks each row's save, so tables
+// can show what is in flight and offer a retry for what failed.
+export const useRowSaves = () => {
+  const [saves, setSaves] = useState<Map<number, RowSave>>(new Map());
+  const timers = useRef(new Map<number, ReturnType<typeof setTimeout>>());
+  const toast = useToast();
+
+  useEffect(() => {
+    const pending = timers.current;
+    return () => pending.forEach(clearTimeout);
+  }, []);
+
+  const setSave = (id: number, save: RowSave | null) => {
+    clearTimeout(timers.current.get(id));
+    timers.current.delete(id);
+    setSaves((current) => {
+      const next = new Map(current);
+      if (save) next.set(id, save);
+      else next.delete(id);
+      return next;
+    });
+  };
+
+  // Sends a change that is already shown and settles the row. Returns why it
+  // failed, after rolling it back, or null once it went through.
+  const settle = async (id: number, change: OptimisticChange) => {
+    try {
+      if ((await change.send()) === "queued") {
+        setSave(id, null);
+        return null;
+      }
+      setSave(id, { status: "saved" });
+      timers.current.set(
+        id,
+        setTimeout(() => setSave(id, null), SAVED_MS)
+      );
+      return null;
+    } catch (error) {
+      console.error(`${change.failure}:`, error);
+      change.rollback();
+      const message = `${change.failure}: ${describeError(error)}`;
+      setSave(id, { status: "error", message, retry: () => save(id, change) });
+      return message;
+    }
+  };
+
+  const save = async (id: number, change: OptimisticChange) => {
+    change.apply();
+    setSave(id, { status: "pending" });
+    const message = await settle(id, change);
+    if (message) {
+      toast.error(message, {
+        label: "Retry",
+        onClick: () => save(id, change),
+      });
+    }
+  };
+
+  // Shows a batch of changes at once, then sends them one after another so a
+  // large batch doesn't flood the backend. Failed rows are rolled back and
+  // summed up in one toast. Resolves with the ids that went through.
+  const saveAll = async (
+    changes: [number, OptimisticChange][],
+    onProgress?: (done: number, failed: number) => void
+  ): Promise<number[]> => {
+    for (const [id, change] of changes) {
+      change.apply();
+      setSave(id, { status: "pending" });
+    }
+    const succeeded: number[] = [];
+    const failed: [number, OptimisticChange][] = [];
+    for (const [index, [id, change]] of changes.entries()) {
+      if (await settle(id, change)) failed.push([id, change]);
+      else succeeded.push(id);
+      onProgress?.(index + 1, failed.length);
+    }
+    if (failed.length > 0) {
+      toast.error(
+        `${failed[0][1].failure} for ${failed.length} of ${changes.length} announcements`,
+        { label: "Retry", onClick: () => saveAll(failed, onProgress) }
+      );
+    }
+    return succeeded;
+  };
+
+  return { saves, save, saveAll };
+};
@@ -0,0 +1,106 @@
+import type { ExportColumn } from "./exportColumns";
+import type { Announcement } from "./types";
+
+// Midnight UTC of a calendar day, or null for a day that doesn't exist such
+// as 31/02, which Date would otherwise roll over into March.
+const calendarDate = (year: number, month: number, day: number) => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year &&
+    date.getUTCMonth() === month - 1 &&
+    date.getUTCDate() === day
+    ? date
+    : null;
+};
+
+// Reads both ISO dates and the dd/mm/yyyy format EspaceAgro displays.
+// Returns null for anything else so the cell stays as text.
+export const parseExportDate = (value: string): Date | null => {
+  const dayFirst = value.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+  if (dayFirst) {
+    const [, day, month, year] = dayFirst.map(Number);
+    return calendarDate(year, month, day);
+  }
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (!iso) return null;
+  const [, year, month, day] = iso.map(Number);
+  const midnight = calendarDate(year, month, day);
+  if (!midnight || value.length === 10) return midnight;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+const cellValue = (column: ExportColumn, row: Announcement) => {
+  const value = column.value(row);
+  if (column.kind === "date" && typeof value === "string") {
+    return parseExportDate(value) ?? value;
+  }
+  return value;
+};
+
+// Builds an .xlsx workbook with a frozen, auto-filtered header row. exceljs
+// is loaded on demand so it stays out of the dashboard's initial bundle.
+export const toXLSX = async (
+  rows: Announcement[],
+  columns: ExportColumn[]
+): Promise<ArrayBuffer> => {
+  const { default: ExcelJS } = await import("exceljs");
+  const workbook = new ExcelJS.Workbook();
+  workbook.created = new Date();
+  const sheet = workbook.addWorksheet("Announcements", {
+    views: [{ state: "frozen", ySplit: 1 }],
+  });
+
+  sheet.columns = columns.map((column) => ({
+    header: column.label,
+    key: column.key,
+    width: column.kind === "date" ? 12 : column.kind === "number" ? 8 : 24,
+    style: column.kind === "date" ? { numFmt: "yyyy-mm-dd" } : undefined,
+  }));
+  sheet.getRow(1).font = { bold: true };
+  for (const row of rows) {
+    sheet.addRow(columns.map((column) => cellValue(column, row)));
+  }
+  if (columns.length > 0) {
+    sheet.autoFilter = {
+      from: { row: 1, column: 1 },
+      to: { row: 1, column: columns.length },
+    };
+  }
+
+  return (await workbook.xlsx.writeBuffer()) as ArrayBuffer;
+};
+
+const cellText = (value: unknown): string => {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return value.toISOString().split("T")[0];
+  if (typeof value === "object") {
+    const cell = value as Record<string, unknown>;
+    // Hyperlinks, formulas and rich text keep their text in different places
+    if ("text" in cell) return cellText(cell.text);
+    if ("result" in cell) return cellText(cell.result);
+    if (Array.isArray(cell.richText)) {
+      return cell.richText
+        .map((part: { text?: string }) => part.text ?? "")
+        .join("");
+    }
+  }
+  return String(value);
+};
+
+// Reads the first worksheet of an .xlsx file as rows of text.
+export const readXLSX = async (data: ArrayBuffer): Promise<string[][]> => {
+  const { default: ExcelJS } = await import("exceljs");
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(data);
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return [];
+  const rows: string[][] = [];
+  sheet.eachRow((row) => {
+    const values: string[] = [];
+    for (let column = 1; column <= sheet.columnCount; column++) {
+      values.push(cellText(row.getCell(column).value).trim());
+    }
+    if (values.some((value) => value !== "")) rows.push(values);
+  });
+  return rows;
+};
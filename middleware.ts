@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { AUTH_ENABLED, LOGIN_PATH, SESSION_COOKIE } from "@/lib/session";
+
+// Files served from public/, e.g. /file.svg
+const STATIC_FILE = /\/[^/]+\.[^/]+$/;
+
+// Pages need a session; without one the visitor is sent to log in first. The
+// backend still checks the token itself on every call.
+export function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  if (
+    !AUTH_ENABLED ||
+    request.cookies.has(SESSION_COOKIE) ||
+    pathname === LOGIN_PATH ||
+    pathname.startsWith(`${LOGIN_PATH}/`) ||
+    STATIC_FILE.test(pathname)
+  ) {
+    return NextResponse.next();
+  }
+
+  const login = new URL(LOGIN_PATH, request.url);
+  login.searchParams.set("next", pathname + search);
+  return NextResponse.redirect(login);
+}
+
+export const config = {
+  matcher: ["/((?!_next/static|_next/image|favicon.ico).*)"],
+};